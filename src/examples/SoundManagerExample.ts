@@ -95,11 +95,19 @@ export class SoundManagerExample extends Phaser.Scene {
     try {
       // 登録された全ての音声アセットを読み込み
       const soundKeys = this.soundManager.getRegisteredSounds();
-      await this.assetManager.loadAssets(soundKeys, (progress) => {
-        console.log(`Audio loading: ${Math.round(progress * 100)}%`);
-      });
+      const result = await this.assetManager.loadAssets(
+        soundKeys,
+        (progress) => {
+          console.log(`Audio loading: ${Math.round(progress * 100)}%`);
+        },
+        { mode: "best-effort", retries: 2 }
+      );
 
-      console.log("All audio assets loaded successfully");
+      // 失敗した音声があっても読み込み可能な音声だけで続行する
+      result.failed.forEach((failure) => {
+        console.warn(`Audio '${failure.key}' unavailable: ${failure.reason}`);
+      });
+      console.log(`${result.succeeded.length} audio assets loaded`);
     } catch (error) {
       console.error("Failed to load audio assets:", error);
     }
@@ -1,24 +1,135 @@
 export { Counter } from "./utils/Counter";
 export { formatKMGT, formatKMBTQ } from "./utils/Numbers";
+export {
+  Schema,
+  StringSchema,
+  NumberSchema,
+  BooleanSchema,
+  ArraySchema,
+  ObjectSchema,
+  AnySchema,
+  SchemaError,
+  SchemaValidationResult,
+  validateSchema,
+} from "./utils/Schema";
+export {
+  TypedEventEmitter,
+  TypedEventListener,
+} from "./utils/TypedEventEmitter";
 export { ColorDef, ColorKey, ColorUtils } from "./const/ColorDef";
 export {
   AssetManager,
   AssetType,
+  AssetEntry,
+  AssetKey,
+  AssetData,
+  TilemapCacheData,
+  VideoCacheData,
+  AssetRegistryMap,
+  DefaultAssetRegistryMap,
+  JsonAsset,
+  XmlAsset,
+  TextureAssetType,
   AssetConfig,
+  AssetManagerConfig,
   AssetSizeInfo,
+  AssetSizeDetail,
+  AssetSizeBudget,
+  AssetUsageReport,
+  AssetUsageReportOptions,
+  AssetUsageEntry,
   AssetRegistration,
   ImageAssetOptions,
   AudioAssetOptions,
   JsonAssetOptions,
   XmlAssetOptions,
   FontAssetOptions,
+  WebFontOptions,
+  DataAssetOptions,
+  MultiAtlasAssetOptions,
+  AsepriteAssetOptions,
+  SvgAssetOptions,
+  VideoAssetOptions,
+  ShaderAssetOptions,
+  BinaryAssetOptions,
+  AudioSpriteAssetOptions,
+  AudioSpriteData,
   LoadProgress,
+  AssetManifest,
+  AssetPackSection,
+  PhaserPackFile,
+  PhaserPackSection,
+  PhaserPackFileEntry,
+  PackWarmth,
+  AssetVariant,
+  AssetDependencyNode,
+  AssetManagerEvents,
+  AssetEvent,
+  AssetFileEvent,
+  AssetFileProgressEvent,
+  AssetFileLoadedEvent,
+  AssetFileFailedEvent,
+  PackCompleteEvent,
+  AssetEvictionReason,
+  AssetEvictedEvent,
 } from "./systems/AssetsManager";
+export {
+  generateTexture,
+  TEXTURE_GENERATORS,
+  TextureColor,
+  TextureGenerator,
+  TextureGeneratorName,
+  TextureGeneratorFunction,
+  GeneratedTextureParams,
+  NineSliceInsets,
+} from "./systems/TextureGenerators";
+export {
+  HotReloadSource,
+  WebSocketReloadSource,
+} from "./systems/HotReloadSource";
+export {
+  AssetLoadError,
+  AssetLoadCancelledError,
+  AssetLoadFailure,
+  AssetValidationReport,
+  SkippedAsset,
+  LoadMode,
+  LoadOptions,
+  LoadPriority,
+  LoadResult,
+} from "./systems/AssetLoadScheduler";
+export {
+  PersistentAssetCache,
+  MemoryAssetCacheStorage,
+  IndexedDBAssetCacheStorage,
+  CacheStorageAssetCacheStorage,
+  AssetCacheStorage,
+  CachedAssetInfo,
+  CachedAssetEntry,
+  CachedFileResult,
+  PersistentCacheConfig,
+} from "./systems/PersistentAssetCache";
 export {
   SoundManager,
   SoundCategoryConfig,
   SoundConfig,
   SoundRegistration,
+  AudioSpriteMarkerRegistration,
+  FadeCurve,
+  FadeCurveName,
+  BGMTransition,
+  BGMPlaylistMode,
+  BGMPlaylistOptions,
+  SoundManagerEvents,
+  BGMTrackChangeEvent,
+  BGMPlaylistEndEvent,
+  MusicLayer,
+  MusicState,
+  LayeredMusicOptions,
+  DuckingOptions,
+  VoiceStealPolicy,
+  SoundPosition,
+  VoiceOptions,
   SoundManagerSettings,
   SoundManagerDebugInfo,
   createSoundManager,
@@ -0,0 +1,95 @@
+import * as Phaser from "phaser";
+import {
+  AssetManager,
+  AssetRegistryMap,
+  DefaultAssetRegistryMap,
+} from "../systems/AssetsManager";
+import { LoadingScreen, LoadingScreenConfig } from "./LoadingScreen";
+
+/**
+ * ローディングシーン
+ * LoadingScreen を表示するだけのシーン。読み込むパック・次のシーンは
+ * コンストラクターの設定か、scene.start に渡すデータで指定する
+ *
+ * 使用例:
+ * ```typescript
+ * import { LoadingScene } from "phaser-game-core/scenes";
+ *
+ * const game = new Phaser.Game({
+ *   scene: [
+ *     new LoadingScene({
+ *       assetManager: (scene) => registerAssets(new AssetManager(scene)),
+ *       tips: ['Tips: 敵は背後からの攻撃に弱い'],
+ *       minDisplayTime: 1000,
+ *     }),
+ *     TitleScene,
+ *     GameScene,
+ *   ],
+ * });
+ *
+ * // ステージごとにパックと次のシーンを指定して切り替える
+ * this.scene.start('LoadingScene', { pack: 'stage2', nextScene: 'GameScene' });
+ * ```
+ */
+export class LoadingScene<
+  R extends AssetRegistryMap<R> = DefaultAssetRegistryMap
+> extends Phaser.Scene {
+  private sceneConfig: LoadingSceneConfig<R>;
+  private assetManager: AssetManager<R> | null = null;
+  private screen: LoadingScreen<R> | null = null;
+
+  constructor(config: LoadingSceneConfig<R>) {
+    super({ key: config.key ?? "LoadingScene" });
+    this.sceneConfig = config;
+  }
+
+  create(data: LoadingSceneData<R> = {}): void {
+    const { key, assetManager, ...screenConfig } = this.sceneConfig;
+
+    // AssetManager はこのシーンのローダーで読み込むため、シーンごとに作成する
+    if (!this.assetManager) {
+      this.assetManager =
+        typeof assetManager === "function" ? assetManager(this) : assetManager;
+    }
+
+    this.screen = new LoadingScreen(this, this.assetManager, {
+      ...screenConfig,
+      ...data,
+    });
+    this.screen.start().catch((error) => {
+      console.error("Loading scene failed:", error);
+    });
+  }
+
+  /**
+   * このシーンで使っている AssetManager を取得
+   */
+  getAssetManager(): AssetManager<R> | null {
+    return this.assetManager;
+  }
+}
+
+/**
+ * ローディングシーン設定
+ */
+export interface LoadingSceneConfig<
+  R extends AssetRegistryMap<R> = DefaultAssetRegistryMap
+> extends LoadingScreenConfig<R> {
+  /** シーンキー（デフォルト: "LoadingScene"） */
+  key?: string;
+  /**
+   * 読み込みに使う AssetManager
+   * このシーンのローダーで読み込む必要があるため、通常はシーンを受け取って作成する関数を指定する
+   */
+  assetManager: AssetManager<R> | ((scene: Phaser.Scene) => AssetManager<R>);
+}
+
+/**
+ * scene.start で渡すデータ（コンストラクターの設定を上書きする）
+ */
+export type LoadingSceneData<
+  R extends AssetRegistryMap<R> = DefaultAssetRegistryMap
+> = Pick<
+  LoadingScreenConfig<R>,
+  "pack" | "keys" | "loadOptions" | "tips" | "nextScene"
+>;
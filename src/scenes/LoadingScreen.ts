@@ -0,0 +1,473 @@
+import type * as Phaser from "phaser";
+import { ColorDef, ColorKey, ColorUtils } from "../const/ColorDef";
+import { formatKMGT } from "../utils/Numbers";
+import {
+  AssetKey,
+  AssetManager,
+  AssetRegistryMap,
+  DefaultAssetRegistryMap,
+  AssetFileEvent,
+  AssetFileLoadedEvent,
+  AssetFileProgressEvent,
+} from "../systems/AssetsManager";
+import {
+  AssetLoadError,
+  LoadOptions,
+  LoadResult,
+} from "../systems/AssetLoadScheduler";
+
+/**
+ * ローディング画面
+ * AssetManager でパックまたはキー一覧を読み込みながら、進捗バー・ファイル名・割合・転送量・Tips を表示する。
+ * 読み込みに失敗した場合はエラーパネルから再試行でき、完了後は次のシーンに切り替える
+ *
+ * 使用例:
+ * ```typescript
+ * import { LoadingScreen } from "phaser-game-core/scenes";
+ *
+ * // 任意のシーンの中で使う
+ * const screen = new LoadingScreen(this, assetManager, {
+ *   pack: 'stage1',
+ *   tips: ['ジャンプ中は攻撃できない', 'コインを100枚集めると1UP'],
+ *   minDisplayTime: 1500,
+ *   colors: { barFill: 'DEEP_SKY_BLUE' },
+ *   nextScene: 'GameScene',
+ * });
+ * const result = await screen.start();
+ * ```
+ */
+export class LoadingScreen<
+  R extends AssetRegistryMap<R> = DefaultAssetRegistryMap
+> {
+  private scene: Phaser.Scene;
+  private assetManager: AssetManager<R>;
+  private config: LoadingScreenConfig<R>;
+  private objects: Phaser.GameObjects.GameObject[] = [];
+  private bar: Phaser.GameObjects.Graphics | null = null;
+  private fileText: Phaser.GameObjects.Text | null = null;
+  private percentText: Phaser.GameObjects.Text | null = null;
+  private bytesText: Phaser.GameObjects.Text | null = null;
+  private tipText: Phaser.GameObjects.Text | null = null;
+  private errorPanel: Phaser.GameObjects.Container | null = null;
+  private tipTimer: Phaser.Time.TimerEvent | null = null;
+  private tipIndex: number = 0;
+  private fileBytes: Map<string, FileBytes> = new Map();
+  private startedAt: number = 0;
+  private resolveRetry: (() => void) | null = null;
+  private resolveWait: (() => void) | null = null;
+  private destroyed: boolean = false;
+
+  constructor(
+    scene: Phaser.Scene,
+    assetManager: AssetManager<R>,
+    config: LoadingScreenConfig<R> = {}
+  ) {
+    this.scene = scene;
+    this.assetManager = assetManager;
+    this.config = config;
+  }
+
+  /**
+   * 画面を表示して読み込みを開始
+   * 全てのアセットを読み込めた時点（再試行を含む）で LoadResult を返し、次のシーンに切り替える
+   */
+  async start(): Promise<LoadResult> {
+    this.startedAt = this.scene.time.now;
+    this.createView();
+    this.assetManager.on("fileStart", this.onFileStart);
+    this.assetManager.on("fileProgress", this.onFileProgress);
+    this.assetManager.on("fileLoaded", this.onFileLoaded);
+    this.scene.events.once("shutdown", this.destroy, this);
+
+    let result = await this.load();
+    while (!this.destroyed && result.failed.length > 0) {
+      await this.showError(result);
+      result = await this.load();
+    }
+
+    await this.waitForMinDisplayTime();
+    // 読み込み中にシーンが終了した場合は切り替えない
+    if (this.destroyed) {
+      return result;
+    }
+    this.config.onComplete?.(result);
+    this.startNextScene();
+    return result;
+  }
+
+  /**
+   * 画面を破棄し、イベントの購読を解除
+   */
+  destroy(): void {
+    if (this.destroyed) {
+      return;
+    }
+    this.destroyed = true;
+    this.assetManager.off("fileStart", this.onFileStart);
+    this.assetManager.off("fileProgress", this.onFileProgress);
+    this.assetManager.off("fileLoaded", this.onFileLoaded);
+    this.scene.events.off("shutdown", this.destroy, this);
+    this.tipTimer?.remove();
+    this.errorPanel?.destroy();
+    this.resolveRetry?.();
+    this.resolveWait?.();
+    this.objects.forEach((object) => object.destroy());
+    this.objects = [];
+  }
+
+  /**
+   * パックまたはキー一覧を読み込む
+   * fail-fast で投げられた AssetLoadError は結果に変換し、エラーパネルで扱う
+   */
+  private async load(): Promise<LoadResult> {
+    const onProgress = (progress: number) => this.setProgress(progress);
+    const options = this.config.loadOptions;
+    this.fileBytes.clear();
+    this.setProgress(0);
+
+    try {
+      if (this.config.pack !== undefined) {
+        return await this.assetManager.loadPack(
+          this.config.pack,
+          onProgress,
+          options
+        );
+      }
+      return await this.assetManager.loadAssets(
+        this.config.keys,
+        onProgress,
+        options
+      );
+    } catch (error) {
+      if (error instanceof AssetLoadError) {
+        return error.result;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 進捗バー・ファイル名・割合・転送量などの表示を作成
+   */
+  private createView(): void {
+    const { width, height } = this.scene.scale;
+    const barWidth = this.config.barWidth ?? Math.round(width * 0.6);
+    const barHeight = this.config.barHeight ?? 16;
+    const textColor = toCSSColor(this.config.colors?.text ?? "WHITE");
+    const style = { fontSize: "16px", color: textColor };
+
+    if (this.config.colors?.background) {
+      this.objects.push(
+        this.scene.add
+          .rectangle(
+            0,
+            0,
+            width,
+            height,
+            toColorNumber(this.config.colors.background)
+          )
+          .setOrigin(0)
+      );
+    }
+
+    this.objects.push(
+      this.scene.add
+        .rectangle(
+          width / 2,
+          height / 2,
+          barWidth,
+          barHeight,
+          toColorNumber(this.config.colors?.barBackground ?? "DARK_CYAN")
+        )
+        .setOrigin(0.5)
+    );
+    this.bar = this.scene.add.graphics();
+    this.percentText = this.scene.add
+      .text(width / 2, height / 2 - barHeight, "0%", style)
+      .setOrigin(0.5, 1);
+    this.fileText = this.scene.add
+      .text(width / 2 - barWidth / 2, height / 2 + barHeight, "", style)
+      .setOrigin(0, 0);
+    this.bytesText = this.scene.add
+      .text(width / 2 + barWidth / 2, height / 2 + barHeight, "", style)
+      .setOrigin(1, 0);
+    this.objects.push(
+      this.bar,
+      this.percentText,
+      this.fileText,
+      this.bytesText
+    );
+
+    const tips = this.config.tips ?? [];
+    if (tips.length > 0) {
+      this.tipIndex = Math.floor(Math.random() * tips.length);
+      this.tipText = this.scene.add
+        .text(width / 2, height * 0.8, tips[this.tipIndex], {
+          ...style,
+          align: "center",
+          wordWrap: { width: barWidth },
+        })
+        .setOrigin(0.5);
+      this.objects.push(this.tipText);
+      if (tips.length > 1) {
+        this.tipTimer = this.scene.time.addEvent({
+          delay: this.config.tipInterval ?? 4000,
+          loop: true,
+          callback: () => {
+            this.tipIndex = (this.tipIndex + 1) % tips.length;
+            this.tipText?.setText(tips[this.tipIndex]);
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * 進捗バーと割合の表示を更新
+   */
+  private setProgress(progress: number): void {
+    if (this.destroyed || !this.bar) {
+      return;
+    }
+    const { width, height } = this.scene.scale;
+    const barWidth = this.config.barWidth ?? Math.round(width * 0.6);
+    const barHeight = this.config.barHeight ?? 16;
+    const ratio = Math.min(Math.max(progress, 0), 1);
+
+    this.bar
+      .clear()
+      .fillStyle(toColorNumber(this.config.colors?.barFill ?? "SKY_BLUE"))
+      .fillRect(
+        width / 2 - barWidth / 2,
+        height / 2 - barHeight / 2,
+        barWidth * ratio,
+        barHeight
+      );
+    this.percentText?.setText(`${Math.round(ratio * 100)}%`);
+  }
+
+  private onFileStart = ({ asset, url }: AssetFileEvent): void => {
+    // 永続キャッシュの Blob URL にはファイル名がないためキーを表示する
+    this.fileText?.setText(getFileName(url) || asset.key);
+  };
+
+  private onFileProgress = ({
+    url,
+    bytesLoaded,
+    bytesTotal,
+  }: AssetFileProgressEvent): void => {
+    this.fileBytes.set(url, {
+      loaded: bytesLoaded,
+      total: Math.max(bytesTotal, bytesLoaded),
+    });
+    this.updateBytes();
+  };
+
+  private onFileLoaded = ({ url, bytes }: AssetFileLoadedEvent): void => {
+    const total = Math.max(bytes, this.fileBytes.get(url)?.total ?? 0);
+    this.fileBytes.set(url, { loaded: total, total });
+    this.updateBytes();
+  };
+
+  /**
+   * 転送量の表示を更新
+   */
+  private updateBytes(): void {
+    let loaded = 0;
+    let total = 0;
+    this.fileBytes.forEach((bytes) => {
+      loaded += bytes.loaded;
+      total += bytes.total;
+    });
+    this.bytesText?.setText(`${formatKMGT(loaded)}B / ${formatKMGT(total)}B`);
+  }
+
+  /**
+   * 失敗したアセットの一覧と再試行ボタンを表示し、再試行が押されるまで待つ
+   */
+  private showError(result: LoadResult): Promise<void> {
+    const { width, height } = this.scene.scale;
+    const panelWidth = Math.round(width * 0.7);
+    const panelHeight = Math.round(height * 0.4);
+    const textColor = toCSSColor(this.config.colors?.text ?? "WHITE");
+    const keys = result.failed.map((failure) => failure.key);
+
+    const background = this.scene.add
+      .rectangle(
+        0,
+        0,
+        panelWidth,
+        panelHeight,
+        toColorNumber(this.config.colors?.errorBackground ?? "DARK_RED")
+      )
+      .setOrigin(0.5);
+    const message = this.scene.add
+      .text(
+        0,
+        -panelHeight / 4,
+        `${this.config.errorText ?? "Failed to load assets"}\n${keys.join(
+          ", "
+        )}`,
+        {
+          fontSize: "16px",
+          color: textColor,
+          align: "center",
+          wordWrap: { width: panelWidth - 32 },
+        }
+      )
+      .setOrigin(0.5);
+    const retry = this.scene.add
+      .text(0, panelHeight / 4, this.config.retryText ?? "Retry", {
+        fontSize: "20px",
+        color: textColor,
+        backgroundColor: toCSSColor(
+          this.config.colors?.barBackground ?? "DARK_CYAN"
+        ),
+        padding: { x: 16, y: 8 },
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    this.errorPanel = this.scene.add.container(width / 2, height / 2, [
+      background,
+      message,
+      retry,
+    ]);
+    this.config.onError?.(result);
+
+    return new Promise((resolve) => {
+      this.resolveRetry = () => {
+        this.resolveRetry = null;
+        resolve();
+      };
+      retry.once("pointerup", () => {
+        this.errorPanel?.destroy();
+        this.errorPanel = null;
+        this.resolveRetry?.();
+      });
+    });
+  }
+
+  /**
+   * 表示開始から minDisplayTime が経過するまで待つ
+   * 先にシーンが終了した場合はタイマーが破棄されるため、画面の破棄時に待機を終える
+   */
+  private waitForMinDisplayTime(): Promise<void> {
+    const remaining =
+      (this.config.minDisplayTime ?? 0) -
+      (this.scene.time.now - this.startedAt);
+    if (remaining <= 0 || this.destroyed) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const timer = this.scene.time.delayedCall(remaining, () =>
+        this.resolveWait?.()
+      );
+      this.resolveWait = () => {
+        this.resolveWait = null;
+        timer.remove();
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * 次のシーンに切り替える（指定がない場合は画面を破棄するのみ）
+   */
+  private startNextScene(): void {
+    const next = this.config.nextScene;
+    this.destroy();
+    if (next === undefined) {
+      return;
+    }
+    if (typeof next === "string") {
+      this.scene.scene.start(next);
+    } else {
+      this.scene.scene.start(next.key, next.data);
+    }
+  }
+}
+
+/**
+ * ColorDef のキーまたは "#RRGGBB" を数値の色に変換
+ */
+const toColorNumber = (color: LoadingScreenColor): number =>
+  ColorUtils.hasColor(color)
+    ? ColorUtils.getColorNumber(color)
+    : ColorUtils.hexToNumber(color);
+
+/**
+ * ColorDef のキーまたは "#RRGGBB" を CSS の色に変換
+ */
+const toCSSColor = (color: LoadingScreenColor): string =>
+  ColorUtils.hasColor(color) ? ColorDef[color] : color;
+
+/**
+ * URL からファイル名を取得（Blob URL の場合は空文字）
+ */
+const getFileName = (url: string): string => {
+  if (url.startsWith("blob:")) {
+    return "";
+  }
+  const path = url.split(/[?#]/)[0];
+  return decodeURIComponent(path.slice(path.lastIndexOf("/") + 1));
+};
+
+/**
+ * ファイルごとの転送量
+ */
+interface FileBytes {
+  loaded: number;
+  total: number;
+}
+
+/**
+ * ColorDef のキー、または "#RRGGBB" 形式の色
+ */
+export type LoadingScreenColor = ColorKey | string;
+
+/**
+ * 次のシーンの指定
+ */
+export type NextSceneConfig = string | { key: string; data?: object };
+
+/**
+ * ローディング画面設定
+ */
+export interface LoadingScreenConfig<
+  R extends AssetRegistryMap<R> = DefaultAssetRegistryMap
+> {
+  /** 読み込むパック名（keys より優先） */
+  pack?: string;
+  /** 読み込むアセットキー（pack・keys とも省略した場合は登録済みの全アセット） */
+  keys?: AssetKey<R>[];
+  loadOptions?: LoadOptions;
+  /** 読み込み中に順に表示するテキスト */
+  tips?: string[];
+  /** Tips を切り替える間隔（ミリ秒、デフォルト: 4000） */
+  tipInterval?: number;
+  /** 読み込みが早く終わっても画面を表示し続ける最短時間（ミリ秒、デフォルト: 0） */
+  minDisplayTime?: number;
+  /** 進捗バーの幅（デフォルト: 画面幅の60%） */
+  barWidth?: number;
+  /** 進捗バーの高さ（デフォルト: 16） */
+  barHeight?: number;
+  colors?: {
+    /** 省略した場合は背景を描画しない */
+    background?: LoadingScreenColor;
+    barBackground?: LoadingScreenColor;
+    barFill?: LoadingScreenColor;
+    text?: LoadingScreenColor;
+    errorBackground?: LoadingScreenColor;
+  };
+  /** エラーパネルの見出し（デフォルト: "Failed to load assets"） */
+  errorText?: string;
+  /** 再試行ボタンのラベル（デフォルト: "Retry"） */
+  retryText?: string;
+  /** 読み込み完了後に切り替えるシーン */
+  nextScene?: NextSceneConfig;
+  /** 読み込みが完了し、次のシーンに切り替える直前に呼ばれる */
+  onComplete?: (result: LoadResult) => void;
+  /** 読み込みに失敗し、エラーパネルを表示したときに呼ばれる */
+  onError?: (result: LoadResult) => void;
+}
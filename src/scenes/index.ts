@@ -0,0 +1,11 @@
+export {
+  LoadingScreen,
+  LoadingScreenConfig,
+  LoadingScreenColor,
+  NextSceneConfig,
+} from "./LoadingScreen";
+export {
+  LoadingScene,
+  LoadingSceneConfig,
+  LoadingSceneData,
+} from "./LoadingScene";
@@ -0,0 +1,581 @@
+import type { SchemaError } from "../utils/Schema";
+import type { AssetConfig, AssetType } from "./AssetsManager";
+
+/**
+ * アセット読み込みスケジューラー
+ * 複数の読み込み要求をキューに積み、優先度の高いものから Phaser のローダーで順に読み込む。
+ * 各要求は自身のキーがすべて決着した時点で LoadResult を返す。
+ * プリフェッチは少数ずつ読み込み、より優先度の高い要求が来た時点で未開始分を後回しにする
+ */
+export class AssetLoadScheduler {
+  private driver: LoadSchedulerDriver;
+  private prefetchChunkSize: number;
+  private requests: LoadRequest[] = [];
+  private exclusiveTasks: (() => Promise<void>)[] = [];
+  private inFlight: Set<string> = new Set();
+  private currentPriority: LoadPriority | null = null;
+  private isRunning: boolean = false;
+  private wakeUpTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(driver: LoadSchedulerDriver, prefetchChunkSize: number = 4) {
+    this.driver = driver;
+    this.prefetchChunkSize = Math.max(1, prefetchChunkSize);
+  }
+
+  /**
+   * 読み込み要求をキューに追加
+   */
+  schedule(
+    assets: AssetConfig[],
+    skipped: SkippedAsset[],
+    onProgress: ((progress: number) => void) | undefined,
+    options: LoadOptions
+  ): Promise<LoadResult> {
+    const result: LoadResult = {
+      succeeded: [],
+      failed: [],
+      skipped,
+      validation: [],
+    };
+
+    if (options.signal?.aborted) {
+      result.skipped.push(
+        ...assets.map((asset) => ({
+          key: asset.key,
+          reason: "cancelled" as const,
+        }))
+      );
+      return Promise.reject(new AssetLoadCancelledError(result));
+    }
+
+    if (assets.length === 0) {
+      return Promise.resolve(result);
+    }
+
+    return new Promise((resolve, reject) => {
+      const request: LoadRequest = {
+        priority: options.priority ?? LoadPriority.LEVEL,
+        mode: options.mode ?? "best-effort",
+        retries: options.retries ?? 2,
+        retryDelay: options.retryDelay ?? 500,
+        retryBackoff: options.retryBackoff ?? 2,
+        assets: new Map(assets.map((asset) => [asset.key, asset])),
+        pending: new Map(assets.map((asset) => [asset.key, 0])),
+        attempts: new Map(),
+        result,
+        onProgress,
+        resolve,
+        reject,
+      };
+
+      if (options.signal) {
+        const signal = options.signal;
+        const onAbort = () => this.cancel(request);
+        signal.addEventListener("abort", onAbort, { once: true });
+        request.dispose = () => signal.removeEventListener("abort", onAbort);
+      }
+
+      this.requests.push(request);
+      this.preempt(request.priority);
+      this.pump();
+    });
+  }
+
+  /**
+   * ローダーを占有する処理をキューに追加
+   * 読み込み中のバッチが終わってから、次のバッチより先に実行する（ホットリロードなど）。
+   * 処理中は他のバッチを読み込まないため、ローダーのイベントが混ざらない
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.exclusiveTasks.push(() => task().then(resolve, reject));
+      this.pump();
+    });
+  }
+
+  /**
+   * 読み込み待ち・読み込み中の要求があるかチェック
+   */
+  isBusy(): boolean {
+    return this.requests.length > 0;
+  }
+
+  /**
+   * 読み込み待ちのキー一覧を取得
+   */
+  getPendingKeys(): string[] {
+    const keys = new Set<string>();
+    for (const request of this.requests) {
+      request.pending.forEach((_, key) => keys.add(key));
+    }
+    return Array.from(keys);
+  }
+
+  /**
+   * 全ての要求をキャンセル
+   */
+  cancelAll(): void {
+    [...this.requests].forEach((request) => this.cancel(request));
+  }
+
+  /**
+   * キューを処理
+   * ローダーが空いている限り、準備のできたキーを優先度順にまとめて読み込む
+   */
+  private async pump(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    if (this.wakeUpTimer) {
+      clearTimeout(this.wakeUpTimer);
+      this.wakeUpTimer = null;
+    }
+
+    try {
+      while (this.requests.length > 0 || this.exclusiveTasks.length > 0) {
+        // 外部から Phaser のローダーが使われている場合は完了を待つ
+        if (this.driver.isLoaderBusy()) {
+          await this.driver.waitForLoader();
+          continue;
+        }
+
+        const exclusiveTask = this.exclusiveTasks.shift();
+        if (exclusiveTask) {
+          await exclusiveTask();
+          continue;
+        }
+
+        const batch = this.nextBatch();
+        if (batch.length === 0) {
+          break;
+        }
+
+        const priority = this.getEffectivePriority(batch[0].key);
+        batch.forEach((asset) => this.inFlight.add(asset.key));
+        this.currentPriority = priority;
+        let outcome: LoadBatchOutcome;
+        try {
+          outcome = await this.driver.runBatch(
+            batch,
+            priority,
+            (key) => this.shouldAbort(key),
+            (progress) => this.reportProgress(batch, progress)
+          );
+        } catch (error) {
+          // ローダーへの追加自体に失敗した場合はバッチ全体を失敗として扱う
+          outcome = {
+            loaded: [],
+            failed: batch.map((asset) => [asset, String(error)]),
+            aborted: [],
+            validation: [],
+          };
+        }
+        batch.forEach((asset) => this.inFlight.delete(asset.key));
+        this.currentPriority = null;
+
+        this.driver.onLoaded(outcome.loaded);
+        this.distribute(outcome);
+      }
+    } finally {
+      this.isRunning = false;
+    }
+
+    this.scheduleWakeUp();
+  }
+
+  /**
+   * 次に読み込むアセット群を選ぶ
+   * 準備のできたキーのうち、最も優先度の高いものをまとめる
+   */
+  private nextBatch(): AssetConfig[] {
+    const now = Date.now();
+    const candidates: Map<string, { asset: AssetConfig; priority: number }> =
+      new Map();
+
+    for (const request of this.requests) {
+      request.pending.forEach((readyAt, key) => {
+        if (readyAt > now || this.inFlight.has(key)) {
+          return;
+        }
+        const candidate = candidates.get(key);
+        if (!candidate || candidate.priority < request.priority) {
+          candidates.set(key, {
+            asset: request.assets.get(key)!,
+            priority: request.priority,
+          });
+        }
+      });
+    }
+
+    let topPriority = -Infinity;
+    candidates.forEach(({ priority }) => {
+      topPriority = Math.max(topPriority, priority);
+    });
+
+    const batch = Array.from(candidates.values())
+      .filter(({ priority }) => priority === topPriority)
+      .map(({ asset }) => asset);
+
+    // プリフェッチはフレームレートへの影響を抑えるため少数ずつ読み込む
+    return topPriority === LoadPriority.PREFETCH
+      ? batch.slice(0, this.prefetchChunkSize)
+      : batch;
+  }
+
+  /**
+   * キーを待っている要求のうち最も高い優先度を取得
+   */
+  private getEffectivePriority(key: string): LoadPriority {
+    let priority = LoadPriority.PREFETCH;
+    for (const request of this.requests) {
+      if (request.pending.has(key)) {
+        priority = Math.max(priority, request.priority);
+      }
+    }
+    return priority;
+  }
+
+  /**
+   * より優先度の高い要求が来た場合、読み込み中のバッチの未開始ファイルを後回しにする
+   * 後回しにしたファイルは aborted として返り、待っている要求があれば次回以降に読み込まれる
+   */
+  private preempt(priority: LoadPriority): void {
+    if (this.currentPriority === null || priority <= this.currentPriority) {
+      return;
+    }
+    this.driver.dropPending(Array.from(this.inFlight));
+  }
+
+  /**
+   * 失敗したキーで読み込みを打ち切るべきかチェック
+   * 再試行を使い切った fail-fast の要求がキーを待っている場合に打ち切る
+   */
+  private shouldAbort(key: string): boolean {
+    return this.requests.some(
+      (request) =>
+        request.mode === "fail-fast" &&
+        request.pending.has(key) &&
+        (request.attempts.get(key) ?? 0) >= request.retries
+    );
+  }
+
+  /**
+   * ローダー1回分の結果を各要求に振り分ける
+   */
+  private distribute(outcome: LoadBatchOutcome): void {
+    const now = Date.now();
+
+    // 検証に失敗して読み込みを止めたアセットは再試行しても結果が変わらないため即座に失敗とする
+    for (const report of outcome.validation) {
+      for (const request of this.requests) {
+        const asset = request.assets.get(report.key);
+        if (!asset || !request.pending.has(report.key)) {
+          continue;
+        }
+        request.result.validation.push(report);
+
+        if (report.blocked) {
+          request.pending.delete(report.key);
+          request.result.failed.push({
+            key: report.key,
+            type: asset.type,
+            reason: "Validation failed",
+            attempts: (request.attempts.get(report.key) ?? 0) + 1,
+            validationErrors: report.errors,
+          });
+        }
+      }
+    }
+
+    for (const asset of outcome.loaded) {
+      for (const request of this.requests) {
+        if (request.pending.delete(asset.key)) {
+          request.result.succeeded.push(asset.key);
+        }
+      }
+    }
+
+    for (const [asset, reason] of outcome.failed) {
+      for (const request of this.requests) {
+        if (!request.pending.has(asset.key)) {
+          continue;
+        }
+
+        const attempts = (request.attempts.get(asset.key) ?? 0) + 1;
+        request.attempts.set(asset.key, attempts);
+
+        if (attempts <= request.retries) {
+          console.warn(
+            `Retrying asset '${asset.key}' (${attempts}/${request.retries}): ${reason}`
+          );
+          const delay =
+            request.retryDelay * Math.pow(request.retryBackoff, attempts - 1);
+          request.pending.set(asset.key, now + delay);
+        } else {
+          console.error(`Failed to load asset: ${asset.key} (${reason})`);
+          request.pending.delete(asset.key);
+          request.result.failed.push({
+            key: asset.key,
+            type: asset.type,
+            reason,
+            attempts,
+          });
+        }
+      }
+    }
+
+    // 打ち切られたアセットは未試行なので、待っている要求があれば次回に読み込む
+    for (const request of [...this.requests]) {
+      if (request.mode === "fail-fast" && request.result.failed.length > 0) {
+        this.settle(request, "aborted");
+      } else if (request.pending.size === 0) {
+        this.settle(request);
+      }
+    }
+  }
+
+  /**
+   * 要求ごとの進捗を通知
+   */
+  private reportProgress(batch: AssetConfig[], batchProgress: number): void {
+    for (const request of this.requests) {
+      if (!request.onProgress) {
+        continue;
+      }
+      const total = request.assets.size;
+      const inBatch = batch.filter((asset) =>
+        request.pending.has(asset.key)
+      ).length;
+      const done = total - request.pending.size;
+      request.onProgress((done + inBatch * batchProgress) / total);
+    }
+  }
+
+  /**
+   * 要求をキャンセル
+   */
+  private cancel(request: LoadRequest): void {
+    if (!this.requests.includes(request)) {
+      return;
+    }
+
+    const cancelledKeys = Array.from(request.pending.keys());
+    this.settle(request, "cancelled");
+
+    // 他の要求が待っていない読み込み中のキーはローダーから取り除く
+    const stillWanted = new Set(this.getPendingKeys());
+    this.driver.dropPending(
+      cancelledKeys.filter(
+        (key) => this.inFlight.has(key) && !stillWanted.has(key)
+      )
+    );
+  }
+
+  /**
+   * 要求を決着させる
+   * skipReason を指定した場合は残りのキーをスキップ扱いにして reject する
+   */
+  private settle(
+    request: LoadRequest,
+    skipReason?: "aborted" | "cancelled"
+  ): void {
+    this.requests.splice(this.requests.indexOf(request), 1);
+    request.dispose?.();
+
+    if (skipReason) {
+      request.pending.forEach((_, key) => {
+        request.result.skipped.push({ key, reason: skipReason });
+      });
+      request.pending.clear();
+    }
+
+    if (skipReason === "cancelled") {
+      request.reject(new AssetLoadCancelledError(request.result));
+    } else if (
+      request.mode === "fail-fast" &&
+      request.result.failed.length > 0
+    ) {
+      request.reject(new AssetLoadError(request.result));
+    } else {
+      request.onProgress?.(1);
+      request.resolve(request.result);
+    }
+  }
+
+  /**
+   * 再試行待ちのキーが準備できる時刻にキュー処理を再開する
+   */
+  private scheduleWakeUp(): void {
+    let nextReadyAt = Infinity;
+    for (const request of this.requests) {
+      request.pending.forEach((readyAt) => {
+        nextReadyAt = Math.min(nextReadyAt, readyAt);
+      });
+    }
+
+    if (nextReadyAt === Infinity || this.wakeUpTimer) {
+      return;
+    }
+
+    this.wakeUpTimer = setTimeout(() => {
+      this.wakeUpTimer = null;
+      this.pump();
+    }, Math.max(0, nextReadyAt - Date.now()));
+  }
+}
+
+/**
+ * アセット読み込みエラー
+ * fail-fast モードで読み込みに失敗した場合に投げられ、途中までの結果を保持する
+ */
+export class AssetLoadError extends Error {
+  readonly result: LoadResult;
+
+  constructor(result: LoadResult, message?: string) {
+    const keys = result.failed.map((failure) => failure.key).join(", ");
+    super(message ?? `Failed to load assets: ${keys}`);
+    this.name = "AssetLoadError";
+    this.result = result;
+  }
+}
+
+/**
+ * アセット読み込みキャンセルエラー
+ * AbortSignal によって読み込み要求がキャンセルされた場合に投げられる
+ */
+export class AssetLoadCancelledError extends AssetLoadError {
+  constructor(result: LoadResult) {
+    super(result, "Asset load was cancelled");
+    this.name = "AssetLoadCancelledError";
+  }
+}
+
+/**
+ * 読み込み優先度
+ * 値が大きいほど先に読み込まれる
+ */
+export enum LoadPriority {
+  PREFETCH = 0,
+  LEVEL = 1,
+  CRITICAL = 2,
+}
+
+/**
+ * 読み込みモード
+ * - fail-fast: 再試行しきれない失敗が出た時点で中断し AssetLoadError を投げる
+ * - best-effort: 失敗したアセットを結果に記録して残りの読み込みを続ける
+ */
+export type LoadMode = "fail-fast" | "best-effort";
+
+/**
+ * 読み込みオプション
+ */
+export interface LoadOptions {
+  /** 読み込みモード（デフォルト: best-effort） */
+  mode?: LoadMode;
+  /** 失敗したファイルの再試行回数（デフォルト: 2） */
+  retries?: number;
+  /** 最初の再試行までの待ち時間（ミリ秒、デフォルト: 500） */
+  retryDelay?: number;
+  /** 再試行ごとに待ち時間へ掛ける倍率（デフォルト: 2） */
+  retryBackoff?: number;
+  /** 読み込み優先度（デフォルト: LEVEL） */
+  priority?: LoadPriority;
+  /** 読み込み要求をキャンセルするためのシグナル */
+  signal?: AbortSignal;
+}
+
+/**
+ * 読み込み結果
+ */
+export interface LoadResult {
+  succeeded: string[];
+  failed: AssetLoadFailure[];
+  skipped: SkippedAsset[];
+  /** 検証エラーが見つかったアセットの報告 */
+  validation: AssetValidationReport[];
+}
+
+/**
+ * 読み込みに失敗したアセット
+ */
+export interface AssetLoadFailure {
+  key: string;
+  type: AssetType;
+  reason: string;
+  attempts: number;
+  /** 検証に失敗した場合のエラー一覧 */
+  validationErrors?: SchemaError[];
+}
+
+/**
+ * アセットの検証結果の報告
+ */
+export interface AssetValidationReport {
+  key: string;
+  errors: SchemaError[];
+  /** 検証エラーにより読み込みを止めたか */
+  blocked: boolean;
+}
+
+/**
+ * 読み込みを行わなかったアセット
+ */
+export interface SkippedAsset {
+  key: string;
+  reason:
+    | "not-registered"
+    | "already-loaded"
+    | "dependency-failed"
+    | "aborted"
+    | "cancelled";
+}
+
+/**
+ * ローダー1回分の読み込み結果
+ */
+export interface LoadBatchOutcome {
+  loaded: AssetConfig[];
+  failed: [AssetConfig, string][];
+  aborted: AssetConfig[];
+  /** 検証エラーの報告。blocked のアセットは loaded・failed に含まれない */
+  validation: AssetValidationReport[];
+}
+
+/**
+ * スケジューラーが Phaser のローダーを操作するためのインターフェース
+ */
+export interface LoadSchedulerDriver {
+  runBatch(
+    assets: AssetConfig[],
+    priority: LoadPriority,
+    shouldAbort: (key: string) => boolean,
+    onProgress: (progress: number) => void
+  ): Promise<LoadBatchOutcome>;
+  isLoaderBusy(): boolean;
+  waitForLoader(): Promise<void>;
+  onLoaded(assets: AssetConfig[]): void;
+  dropPending(keys: string[]): void;
+}
+
+/**
+ * 読み込み要求
+ */
+interface LoadRequest {
+  priority: LoadPriority;
+  mode: LoadMode;
+  retries: number;
+  retryDelay: number;
+  retryBackoff: number;
+  assets: Map<string, AssetConfig>;
+  /** 読み込み待ちのキーと、読み込み可能になる時刻 */
+  pending: Map<string, number>;
+  attempts: Map<string, number>;
+  result: LoadResult;
+  onProgress?: (progress: number) => void;
+  resolve: (result: LoadResult) => void;
+  reject: (error: AssetLoadError) => void;
+  dispose?: () => void;
+}
@@ -1,4 +1,31 @@
-import * as Phaser from "phaser";
+import type * as Phaser from "phaser";
+import { formatKMGT } from "../utils/Numbers";
+import { Schema, SchemaError, validateSchema } from "../utils/Schema";
+import {
+  TypedEventEmitter,
+  TypedEventListener,
+} from "../utils/TypedEventEmitter";
+import {
+  AssetLoadCancelledError,
+  AssetLoadError,
+  AssetLoadScheduler,
+  AssetValidationReport,
+  LoadBatchOutcome,
+  LoadOptions,
+  LoadPriority,
+  LoadResult,
+  SkippedAsset,
+} from "./AssetLoadScheduler";
+import {
+  PersistentAssetCache,
+  PersistentCacheConfig,
+} from "./PersistentAssetCache";
+import { HotReloadSource } from "./HotReloadSource";
+import {
+  GeneratedTextureParams,
+  TextureGenerator,
+  generateTexture,
+} from "./TextureGenerators";
 
 /**
  * アセット管理クラス
@@ -13,7 +40,9 @@ import * as Phaser from "phaser";
  *   .registerImage('player', 'assets/player.png')
  *   .registerSpritesheet('explosion', 'assets/explosion.png', { frameWidth: 32, frameHeight: 32 })
  *   .registerAudio('bgm', ['assets/bgm.mp3', 'assets/bgm.ogg'])
- *   .registerJSON('gameData', 'assets/gameData.json');
+ *   .registerJSON('gameData', 'assets/gameData.json')
+ *   .registerWebFont('uiFont', ['assets/ui.woff2', 'assets/ui.ttf'])
+ *   .registerGeneratedTexture('button', 'roundedRect', { width: 160, height: 48, fill: 'DEEP_SKY_BLUE' });
  *
  * // アセットを読み込み
  * await assetManager.loadAssets(undefined, (progress) => {
@@ -23,29 +52,93 @@ import * as Phaser from "phaser";
  * // アセットを使用
  * const playerTexture = assetManager.getImage('player');
  * const bgmSound = assetManager.getAudio('bgm');
+ * this.add.text(0, 0, 'Score', { fontFamily: assetManager.getFontFamily('uiFont') });
  * const gameData = assetManager.getJSON('gameData');
+ *
+ * // マニフェストからアセットパックを読み込み
+ * await assetManager.loadManifest('manifest', 'assets/manifest.json');
+ * await assetManager.loadPack('stage1');
+ *
+ * // シーンが使う間アセットを保持（シーン終了時に自動で解放）
+ * assetManager.acquireForScene(this, assetManager.getPackKeys('stage1'));
+ *
+ * // プレイ中に次のステージを先読み
+ * assetManager.prefetchPack('stage2');
+ *
+ * // 使われていないアセットを確認する（new AssetManager(this, { trackUsage: true }) の場合）
+ * console.log(assetManager.exportUsageReport());
+ *
+ * // 読み込みの状況をイベントで受け取る
+ * assetManager.on('fileFailed', ({ asset, url, reason }) => {
+ *   analytics.track('asset_failed', { key: asset.key, url, reason });
+ * });
  * ```
  */
-export class AssetManager {
+export class AssetManager<
+  R extends AssetRegistryMap<R> = DefaultAssetRegistryMap
+> {
   private scene: Phaser.Scene;
-  private loadedAssets: Map<string, any> = new Map();
+  private config: AssetManagerConfig & { autoUnload: boolean };
+  private loadedAssets: Map<string, LoadedAssetInfo> = new Map();
   private assetRegistry: Map<string, AssetConfig> = new Map();
-  private loadQueue: AssetConfig[] = [];
-  private isLoading: boolean = false;
+  private packs: Map<string, string[]> = new Map();
+  private referenceCounts: Map<string, number> = new Map();
+  private ownerReferences: Map<string, string[]> = new Map();
+  private trackedScenes: Set<Phaser.Scene> = new Set();
+  private scheduler: AssetLoadScheduler;
+  private droppedKeys: Set<string> = new Set();
+  private transferredBytes: Map<string, number> = new Map();
+  private assetURLs: Map<string, string[]> = new Map();
+  private persistentCache: PersistentAssetCache | null;
+  private blobURLs: Map<string, string[]> = new Map();
+  private blobSources: Map<string, string> = new Map();
+  private cacheHits: number = 0;
+  private cacheMisses: number = 0;
+  private events: TypedEventEmitter<AssetManagerEvents> =
+    new TypedEventEmitter();
+  private reloadQueue: Promise<unknown> = Promise.resolve();
+  private reloadCount: number = 0;
+  private variants: Map<string, AssetVariant[]> = new Map();
+  private activeVariants: Map<string, string> = new Map();
+  private dependencies: Map<string, string[]> = new Map();
+  private webFonts: Map<string, WebFontHandle> = new Map();
+  private usage: Map<string, AssetUsageRecord> = new Map();
 
-  constructor(scene: Phaser.Scene) {
+  constructor(scene: Phaser.Scene, config: AssetManagerConfig = {}) {
     this.scene = scene;
+    this.config = {
+      ...config,
+      autoUnload: config.autoUnload ?? true,
+    };
+    this.persistentCache = config.persistentCache
+      ? new PersistentAssetCache(
+          config.persistentCache.storage,
+          config.persistentCache.maxSizeKB
+        )
+      : null;
+    this.scheduler = new AssetLoadScheduler(
+      {
+        runBatch: (assets, priority, shouldAbort, onProgress) =>
+          this.runLoadBatch(assets, priority, shouldAbort, onProgress),
+        isLoaderBusy: () => this.scene.load.isLoading(),
+        waitForLoader: () =>
+          new Promise((resolve) => this.scene.load.once("complete", resolve)),
+        onLoaded: (assets) => this.onLoadComplete(assets),
+        dropPending: (keys) => this.dropPendingFiles(keys),
+      },
+      config.prefetchChunkSize
+    );
   }
 
   /**
    * 画像アセットを登録
    */
   registerImage(
-    key: string,
+    key: AssetKey<R, AssetType.IMAGE>,
     path: string,
     options?: ImageAssetOptions
-  ): AssetManager {
-    this.assetRegistry.set(key, {
+  ): this {
+    this.addRegistration({
       key,
       type: AssetType.IMAGE,
       path,
@@ -58,12 +151,12 @@ export class AssetManager {
    * スプライトシートを登録
    */
   registerSpritesheet(
-    key: string,
+    key: AssetKey<R, AssetType.SPRITESHEET>,
     path: string,
     frameConfig: Phaser.Types.Loader.FileTypes.ImageFrameConfig,
     options?: ImageAssetOptions
-  ): AssetManager {
-    this.assetRegistry.set(key, {
+  ): this {
+    this.addRegistration({
       key,
       type: AssetType.SPRITESHEET,
       path,
@@ -77,12 +170,12 @@ export class AssetManager {
    * テクスチャアトラスを登録
    */
   registerAtlas(
-    key: string,
+    key: AssetKey<R, AssetType.ATLAS>,
     textureURL: string,
     atlasURL: string,
     options?: ImageAssetOptions
-  ): AssetManager {
-    this.assetRegistry.set(key, {
+  ): this {
+    this.addRegistration({
       key,
       type: AssetType.ATLAS,
       path: textureURL,
@@ -96,11 +189,11 @@ export class AssetManager {
    * 音声アセットを登録
    */
   registerAudio(
-    key: string,
+    key: AssetKey<R, AssetType.AUDIO>,
     path: string | string[],
     options?: AudioAssetOptions
-  ): AssetManager {
-    this.assetRegistry.set(key, {
+  ): this {
+    this.addRegistration({
       key,
       type: AssetType.AUDIO,
       path,
@@ -113,11 +206,11 @@ export class AssetManager {
    * JSONファイルを登録
    */
   registerJSON(
-    key: string,
+    key: AssetKey<R, AssetType.JSON>,
     path: string,
     options?: JsonAssetOptions
-  ): AssetManager {
-    this.assetRegistry.set(key, {
+  ): this {
+    this.addRegistration({
       key,
       type: AssetType.JSON,
       path,
@@ -130,11 +223,11 @@ export class AssetManager {
    * XMLファイルを登録
    */
   registerXML(
-    key: string,
+    key: AssetKey<R, AssetType.XML>,
     path: string,
     options?: XmlAssetOptions
-  ): AssetManager {
-    this.assetRegistry.set(key, {
+  ): this {
+    this.addRegistration({
       key,
       type: AssetType.XML,
       path,
@@ -144,16 +237,16 @@ export class AssetManager {
   }
 
   /**
-   * フォントを登録
+   * ビットマップフォントを登録
    */
-  registerFont(
-    key: string,
+  registerBitmapFont(
+    key: AssetKey<R, AssetType.BITMAP_FONT>,
     path: string,
     options?: FontAssetOptions
-  ): AssetManager {
-    this.assetRegistry.set(key, {
+  ): this {
+    this.addRegistration({
       key,
-      type: AssetType.FONT,
+      type: AssetType.BITMAP_FONT,
       path,
       options,
     });
@@ -161,374 +254,3544 @@ export class AssetManager {
   }
 
   /**
-   * 登録されたアセットを読み込み
+   * ビットマップフォントを登録
+   * @deprecated registerBitmapFont を使用
    */
-  async loadAssets(
-    keys?: string[],
-    onProgress?: (progress: number) => void
-  ): Promise<void> {
-    if (this.isLoading) {
-      console.warn("Already loading assets");
-      return;
-    }
-
-    this.isLoading = true;
-
-    try {
-      const assetsToLoad = keys
-        ? (keys
-            .map((key) => this.assetRegistry.get(key))
-            .filter(Boolean) as AssetConfig[])
-        : Array.from(this.assetRegistry.values());
-
-      if (assetsToLoad.length === 0) {
-        console.warn("No assets to load");
-        return;
-      }
-
-      // プログレスコールバックを設定
-      if (onProgress) {
-        this.scene.load.on("progress", onProgress);
-      }
-
-      // アセットを読み込みキューに追加
-      for (const asset of assetsToLoad) {
-        this.addToLoadQueue(asset);
-      }
-
-      // 読み込み開始
-      if (!this.scene.load.isLoading()) {
-        return new Promise((resolve, reject) => {
-          this.scene.load.once("complete", () => {
-            this.onLoadComplete(assetsToLoad);
-            resolve();
-          });
-
-          this.scene.load.once("loaderror", (file: any) => {
-            console.error(`Failed to load asset: ${file.key}`);
-            reject(new Error(`Failed to load asset: ${file.key}`));
-          });
-
-          this.scene.load.start();
-        });
-      }
-    } finally {
-      this.isLoading = false;
-      if (onProgress) {
-        this.scene.load.off("progress", onProgress);
-      }
-    }
+  registerFont(
+    key: AssetKey<R, AssetType.BITMAP_FONT>,
+    path: string,
+    options?: FontAssetOptions
+  ): this {
+    return this.registerBitmapFont(key, path, options);
   }
 
   /**
-   * アセットを読み込みキューに追加
+   * Web フォント（TTF/OTF/WOFF/WOFF2）を登録
+   * 複数の URL を指定した場合はブラウザが対応する最初の形式を使う
    */
-  private addToLoadQueue(asset: AssetConfig): void {
-    const loader = this.scene.load;
-
-    switch (asset.type) {
-      case AssetType.IMAGE:
-        loader.image(asset.key, asset.path, asset.options);
-        break;
-      case AssetType.SPRITESHEET:
-        loader.spritesheet(
-          asset.key,
-          asset.path as string,
-          asset.frameConfig!,
-          asset.options
-        );
-        break;
-
-      case AssetType.ATLAS:
-        loader.atlas(asset.key, asset.path, asset.atlasPath!, asset.options);
-        break;
-
-      case AssetType.AUDIO:
-        loader.audio(asset.key, asset.path, asset.options);
-        break;
-
-      case AssetType.JSON:
-        loader.json(asset.key, asset.path, asset.options);
-        break;
-      case AssetType.XML:
-        loader.xml(asset.key, asset.path as string, asset.options);
-        break;
-
-      case AssetType.FONT:
-        loader.bitmapFont(asset.key, asset.path, asset.options?.fontDataURL);
-        break;
-    }
+  registerWebFont(
+    key: AssetKey<R, AssetType.WEB_FONT>,
+    path: string | string[],
+    options?: WebFontOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.WEB_FONT,
+      path,
+      options,
+    });
+    return this;
   }
 
   /**
-   * 読み込み完了時の処理
+   * CSS で定義された Web フォントを登録
+   * スタイルシートを読み込み、指定したファミリーが使えるようになるまで待つ
    */
-  private onLoadComplete(loadedAssets: AssetConfig[]): void {
-    for (const asset of loadedAssets) {
-      this.loadedAssets.set(asset.key, {
-        key: asset.key,
-        type: asset.type,
-        loadedAt: Date.now(),
-      });
-    }
+  registerWebFontCSS(
+    key: AssetKey<R, AssetType.WEB_FONT>,
+    cssURL: string,
+    families: string[],
+    options?: Omit<WebFontOptions, "family" | "format">
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.WEB_FONT,
+      path: cssURL,
+      options: { ...options, stylesheet: true, families },
+    });
+    return this;
   }
+
   /**
-   * アセットが読み込み済みかチェック
+   * Tiled 形式（JSON）のタイルマップを登録
    */
-  isLoaded(key: string): boolean {
-    return (
-      this.loadedAssets.has(key) &&
-      (this.scene.textures.exists(key) ||
-        this.scene.cache.audio.exists(key) ||
-        this.scene.cache.json.exists(key) ||
-        this.scene.cache.xml.exists(key))
-    );
+  registerTilemapJSON(
+    key: AssetKey<R, AssetType.TILEMAP_JSON>,
+    path: string,
+    options?: DataAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.TILEMAP_JSON,
+      path,
+      options,
+    });
+    return this;
   }
 
   /**
-   * 登録されているアセットかチェック
+   * CSV 形式のタイルマップを登録
    */
-  isRegistered(key: string): boolean {
-    return this.assetRegistry.has(key);
+  registerTilemapCSV(
+    key: AssetKey<R, AssetType.TILEMAP_CSV>,
+    path: string,
+    options?: DataAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.TILEMAP_CSV,
+      path,
+      options,
+    });
+    return this;
   }
 
   /**
-   * 画像アセットを取得
+   * マルチアトラスを登録
    */
-  getImage(key: string): Phaser.Textures.Texture | null {
-    if (!this.isLoaded(key)) {
-      console.warn(`Image asset '${key}' is not loaded`);
-      return null;
-    }
-    return this.scene.textures.get(key);
+  registerMultiAtlas(
+    key: AssetKey<R, AssetType.MULTIATLAS>,
+    atlasURL: string,
+    options?: MultiAtlasAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.MULTIATLAS,
+      path: atlasURL,
+      options,
+    });
+    return this;
   }
 
   /**
-   * 音声アセットを取得
+   * Aseprite ファイルを登録
    */
-  getAudio(key: string): Phaser.Sound.BaseSound | null {
-    if (!this.isLoaded(key)) {
-      console.warn(`Audio asset '${key}' is not loaded`);
-      return null;
-    }
-    return this.scene.sound.get(key);
+  registerAseprite(
+    key: AssetKey<R, AssetType.ASEPRITE>,
+    textureURL: string,
+    atlasURL: string,
+    options?: AsepriteAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.ASEPRITE,
+      path: textureURL,
+      atlasPath: atlasURL,
+      options,
+    });
+    return this;
   }
 
   /**
-   * JSONデータを取得
+   * SVG 画像を登録
    */
-  getJSON(key: string): any {
-    if (!this.isLoaded(key)) {
-      console.warn(`JSON asset '${key}' is not loaded`);
-      return null;
-    }
-    return this.scene.cache.json.get(key);
+  registerSVG(
+    key: AssetKey<R, AssetType.SVG>,
+    path: string,
+    options?: SvgAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.SVG,
+      path,
+      options,
+    });
+    return this;
   }
 
   /**
-   * XMLデータを取得
+   * 動画を登録
    */
-  getXML(key: string): any {
-    if (!this.isLoaded(key)) {
-      console.warn(`XML asset '${key}' is not loaded`);
-      return null;
-    }
-    return this.scene.cache.xml.get(key);
+  registerVideo(
+    key: AssetKey<R, AssetType.VIDEO>,
+    path: string | string[],
+    options?: VideoAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.VIDEO,
+      path,
+      options,
+    });
+    return this;
   }
 
   /**
-   * 読み込み済みアセット一覧を取得
+   * GLSL シェーダーを登録
    */
-  getLoadedAssets(): string[] {
-    return Array.from(this.loadedAssets.keys());
+  registerGLSL(
+    key: AssetKey<R, AssetType.GLSL>,
+    path: string,
+    options?: ShaderAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.GLSL,
+      path,
+      options,
+    });
+    return this;
   }
 
   /**
-   * 登録済みアセット一覧を取得
+   * テキストファイルを登録
    */
-  getRegisteredAssets(): string[] {
-    return Array.from(this.assetRegistry.keys());
+  registerText(
+    key: AssetKey<R, AssetType.TEXT>,
+    path: string,
+    options?: DataAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.TEXT,
+      path,
+      options,
+    });
+    return this;
   }
 
   /**
-   * アセットを削除
+   * CSV ファイルを登録
    */
-  removeAsset(key: string): void {
-    this.assetRegistry.delete(key);
-    this.loadedAssets.delete(key);
-
-    // キャッシュからも削除
-    this.scene.textures.remove(key);
-    this.scene.cache.audio.remove(key);
-    this.scene.cache.json.remove(key);
-    this.scene.cache.xml.remove(key);
+  registerCSV(
+    key: AssetKey<R, AssetType.CSV>,
+    path: string,
+    options?: DataAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.CSV,
+      path,
+      options,
+    });
+    return this;
   }
 
   /**
-   * 全アセットをクリア
+   * バイナリファイルを登録
    */
-  clear(): void {
-    this.assetRegistry.clear();
-    this.loadedAssets.clear();
-    this.loadQueue = [];
+  registerBinary(
+    key: AssetKey<R, AssetType.BINARY>,
+    path: string,
+    options?: BinaryAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.BINARY,
+      path,
+      options,
+    });
+    return this;
   }
+
   /**
-   * 読み込み進捗情報を取得
+   * HTML ファイルを登録
    */
-  getLoadProgress(): LoadProgress {
-    const total = this.assetRegistry.size;
-    const loaded = this.loadedAssets.size;
-    return {
-      loaded,
-      total,
-      percentage: total > 0 ? Math.round((loaded / total) * 100) : 0,
-    };
+  registerHTML(
+    key: AssetKey<R, AssetType.HTML>,
+    path: string,
+    options?: DataAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.HTML,
+      path,
+      options,
+    });
+    return this;
   }
 
   /**
-   * 複数のアセットを一括登録
+   * オーディオスプライトを登録
    */
-  registerAssets(assets: AssetRegistration[]): AssetManager {
-    for (const asset of assets) {
-      switch (asset.type) {
-        case AssetType.IMAGE:
-          this.registerImage(asset.key, asset.path as string, asset.options);
-          break;
-        case AssetType.SPRITESHEET:
-          this.registerSpritesheet(
-            asset.key,
-            asset.path as string,
-            asset.frameConfig!,
-            asset.options
-          );
-          break;
-        case AssetType.ATLAS:
-          this.registerAtlas(
-            asset.key,
-            asset.path as string,
-            asset.atlasPath!,
-            asset.options
-          );
-          break;
-        case AssetType.AUDIO:
-          this.registerAudio(asset.key, asset.path, asset.options);
-          break;
-        case AssetType.JSON:
-          this.registerJSON(asset.key, asset.path as string, asset.options);
-          break;
-        case AssetType.XML:
-          this.registerXML(asset.key, asset.path as string, asset.options);
-          break;
-        case AssetType.FONT:
-          this.registerFont(asset.key, asset.path as string, asset.options);
-          break;
-      }
-    }
+  registerAudioSprite(
+    key: AssetKey<R, AssetType.AUDIO_SPRITE>,
+    jsonURL: string,
+    audioURL: string | string[],
+    options?: AudioSpriteAssetOptions
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.AUDIO_SPRITE,
+      path: audioURL,
+      dataPath: jsonURL,
+      options,
+    });
     return this;
   }
 
   /**
-   * アセットプリローダー（ゲーム開始前の必須アセット読み込み）
+   * 読み込み時に生成するテクスチャを登録
+   * 組み込みの生成方法（rect・roundedRect・circle・gradient・nineSlice・noise）または生成関数と
+   * パラメーターを指定する。ファイルの画像と同様に進捗に含まれ、getImage・isLoaded で扱える
    */
-  async preloadEssentialAssets(
-    essentialKeys: string[],
-    onProgress?: (progress: number) => void
-  ): Promise<void> {
-    const essentialAssets = essentialKeys
-      .map((key) => this.assetRegistry.get(key))
-      .filter(Boolean) as AssetConfig[];
-
-    if (essentialAssets.length === 0) {
-      throw new Error("No essential assets found");
-    }
-
-    return this.loadAssets(essentialKeys, onProgress);
+  registerGeneratedTexture<P extends GeneratedTextureParams>(
+    key: AssetKey<R, AssetType.GENERATED_TEXTURE>,
+    generator: TextureGenerator<P>,
+    params: P
+  ): this {
+    this.addRegistration({
+      key,
+      type: AssetType.GENERATED_TEXTURE,
+      path: "",
+      options: { generator, params },
+    });
+    return this;
   }
 
   /**
-   * レベル別アセット読み込み
+   * アセットを登録し、registered イベントを発行
    */
-  async loadLevelAssets(
-    levelName: string,
-    assetKeys: string[],
-    onProgress?: (progress: number) => void
-  ): Promise<void> {
-    console.log(`Loading assets for level: ${levelName}`);
-    return this.loadAssets(assetKeys, onProgress);
+  private addRegistration(asset: AssetConfig): void {
+    this.assetRegistry.set(asset.key, asset);
+    this.events.emit("registered", { asset });
   }
 
   /**
-   * アセットの容量チェック（概算）
+   * 登録済みアセットに解像度・ロケール・品質別のバリエーションを追加
+   * 登録時のパスは解像度1・ロケールなし・品質なしのバリエーションとして扱われ、
+   * 読み込み時に端末の解像度と現在のロケール・品質から最適なものが選ばれる
    */
-  getEstimatedSize(): AssetSizeInfo {
-    let totalEstimatedSize = 0;
-    const sizeByType: Record<AssetType, number> = {
-      [AssetType.IMAGE]: 0,
-      [AssetType.SPRITESHEET]: 0,
-      [AssetType.ATLAS]: 0,
-      [AssetType.AUDIO]: 0,
-      [AssetType.JSON]: 0,
-      [AssetType.XML]: 0,
-      [AssetType.FONT]: 0,
-    };
-
-    // 概算サイズ計算（実際のファイルサイズは取得できないため推定値）
-    for (const [key, asset] of this.assetRegistry) {
-      let estimatedSize = 0;
-      switch (asset.type) {
+  registerVariants(key: AssetKey<R>, variants: AssetVariant[]): this {
+    if (!this.assetRegistry.has(key)) {
+      console.warn(`Asset '${key}' must be registered before its variants`);
+      return this;
+    }
+    this.variants.set(key, [...(this.variants.get(key) ?? []), ...variants]);
+    return this;
+  }
+
+  /**
+   * アセットの依存関係を登録
+   * 依存先は読み込み時に先に読み込まれ、依存元が読み込まれている間はアンロードされない。
+   * 循環する依存関係を登録しようとした場合はエラーを投げる
+   */
+  registerDependencies(key: AssetKey<R>, dependsOn: AssetKey<R>[]): this {
+    // 循環が見つかった場合に途中まで追加された状態を残さないよう、コピーに追加してから反映する
+    const next = [...(this.dependencies.get(key) ?? [])];
+    for (const dependency of dependsOn) {
+      if (next.includes(dependency)) {
+        continue;
+      }
+      const cycle = this.findDependencyPath(dependency, key);
+      if (cycle) {
+        throw new Error(
+          `Dependency cycle detected: ${[key, ...cycle].join(" -> ")}`
+        );
+      }
+      next.push(dependency);
+    }
+    this.dependencies.set(key, next);
+    return this;
+  }
+
+  /**
+   * アセットが直接依存しているキーを取得
+   */
+  getDependencies(key: AssetKey<R>): AssetKey<R>[] {
+    return [...(this.dependencies.get(key) ?? [])] as AssetKey<R>[];
+  }
+
+  /**
+   * from から to へ依存をたどる経路を探す（見つからない場合は null）
+   */
+  private findDependencyPath(from: string, to: string): string[] | null {
+    if (from === to) {
+      return [from];
+    }
+    for (const dependency of this.dependencies.get(from) ?? []) {
+      const path = this.findDependencyPath(dependency, to);
+      if (path) {
+        return [from, ...path];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 依存先を推移的に全て取得（近いものから順）
+   */
+  private collectDependencies(key: string): string[] {
+    const collected: string[] = [];
+    const visit = (current: string) => {
+      for (const dependency of this.dependencies.get(current) ?? []) {
+        if (!collected.includes(dependency)) {
+          collected.push(dependency);
+          visit(dependency);
+        }
+      }
+    };
+    visit(key);
+    return collected;
+  }
+
+  /**
+   * 読み込まれているアセットのうち、key に直接依存しているもののキーを取得
+   */
+  private getLoadedDependents(key: string): string[] {
+    return Array.from(this.loadedAssets.keys()).filter((loadedKey) =>
+      this.dependencies.get(loadedKey)?.includes(key)
+    );
+  }
+
+  /**
+   * 登録されたアセットを読み込み
+   * 要求はキューに積まれ、優先度の高いものから順に読み込まれる。
+   * 返り値の Promise はこの要求のキーがすべて決着した時点で LoadResult を返す。
+   * 失敗したファイルは retries 回までバックオフ付きで再試行し、
+   * mode が "fail-fast" の場合は再試行しきれなかった時点で AssetLoadError を投げる
+   */
+  async loadAssets(
+    keys?: AssetKey<R>[],
+    onProgress?: (progress: number) => void,
+    options: LoadOptions = {}
+  ): Promise<LoadResult> {
+    return this.loadKeys(keys, onProgress, options);
+  }
+
+  /**
+   * キーを指定してアセットを読み込み（内部用）
+   * 依存先も含め、依存の深い順に段階的に読み込む。
+   * 依存先の読み込みに失敗したアセットは読み込まずにスキップする
+   */
+  private async loadKeys(
+    keys: string[] | undefined,
+    onProgress?: (progress: number) => void,
+    options: LoadOptions = {}
+  ): Promise<LoadResult> {
+    const levels = this.getLoadLevels(
+      keys ?? Array.from(this.assetRegistry.keys())
+    );
+    if (levels.length <= 1) {
+      return this.scheduleKeys(levels[0] ?? [], onProgress, options);
+    }
+
+    const result: LoadResult = {
+      succeeded: [],
+      failed: [],
+      skipped: [],
+      validation: [],
+    };
+    const merge = (partial: LoadResult) => {
+      result.succeeded.push(...partial.succeeded);
+      result.failed.push(...partial.failed);
+      result.skipped.push(...partial.skipped);
+      result.validation.push(...partial.validation);
+    };
+    const unavailable = new Set<string>();
+    const total = levels.reduce((sum, level) => sum + level.length, 0);
+    let done = 0;
+
+    for (const [index, level] of levels.entries()) {
+      const loadable = level.filter((key) => {
+        const blocked = this.dependencies
+          .get(key)
+          ?.some((dependency) => unavailable.has(dependency));
+        if (blocked) {
+          result.skipped.push({ key, reason: "dependency-failed" });
+          unavailable.add(key);
+        }
+        return !blocked;
+      });
+      if (loadable.length === 0) {
+        done += level.length;
+        continue;
+      }
+
+      let levelResult: LoadResult;
+      try {
+        levelResult = await this.scheduleKeys(
+          loadable,
+          (progress) => onProgress?.((done + progress * level.length) / total),
+          options
+        );
+      } catch (error) {
+        if (!(error instanceof AssetLoadError)) {
+          throw error;
+        }
+        // 中断・キャンセル時は残りの段階のキーもスキップ扱いにする
+        merge(error.result);
+        const cancelled = error instanceof AssetLoadCancelledError;
+        levels.slice(index + 1).forEach((rest) =>
+          rest.forEach((key) =>
+            result.skipped.push({
+              key,
+              reason: cancelled ? "cancelled" : "aborted",
+            })
+          )
+        );
+        throw cancelled
+          ? new AssetLoadCancelledError(result)
+          : new AssetLoadError(result);
+      }
+
+      merge(levelResult);
+      levelResult.failed.forEach((failure) => unavailable.add(failure.key));
+      levelResult.skipped
+        .filter((skip) => skip.reason !== "already-loaded")
+        .forEach((skip) => unavailable.add(skip.key));
+      done += level.length;
+    }
+
+    onProgress?.(1);
+    return result;
+  }
+
+  /**
+   * 依存先を含めたキーを、依存の深さごとの段階に分ける
+   * 依存先を持たないキーが最初の段階になる
+   */
+  private getLoadLevels(keys: string[]): string[][] {
+    const depths: Map<string, number> = new Map();
+    const getDepth = (key: string): number => {
+      let depth = depths.get(key);
+      if (depth === undefined) {
+        const dependencies = this.dependencies.get(key) ?? [];
+        depth = Math.max(-1, ...dependencies.map(getDepth)) + 1;
+        depths.set(key, depth);
+      }
+      return depth;
+    };
+    keys.forEach(getDepth);
+
+    const levels: string[][] = [];
+    depths.forEach((depth, key) => {
+      (levels[depth] ??= []).push(key);
+    });
+    return levels.filter((level) => level !== undefined);
+  }
+
+  /**
+   * キーを1つの要求としてスケジューラーに渡す
+   */
+  private scheduleKeys(
+    requestedKeys: string[],
+    onProgress?: (progress: number) => void,
+    options: LoadOptions = {}
+  ): Promise<LoadResult> {
+    const assetsToLoad: AssetConfig[] = [];
+    const skipped: SkippedAsset[] = [];
+    for (const key of requestedKeys) {
+      const asset = this.assetRegistry.get(key);
+      if (!asset) {
+        skipped.push({ key, reason: "not-registered" });
+      } else if (this.isAssetLoaded(key)) {
+        skipped.push({ key, reason: "already-loaded" });
+      } else {
+        assetsToLoad.push(asset);
+      }
+    }
+
+    if (assetsToLoad.length === 0 && skipped.length === 0) {
+      console.warn("No assets to load");
+    }
+
+    return this.scheduler.schedule(assetsToLoad, skipped, onProgress, options);
+  }
+
+  /**
+   * 読み込み中または読み込み待ちの要求があるかチェック
+   */
+  isLoadingAssets(): boolean {
+    return this.scheduler.isBusy();
+  }
+
+  /**
+   * 読み込み待ちの要求を全てキャンセル
+   */
+  cancelAllLoads(): void {
+    this.scheduler.cancelAll();
+  }
+
+  /**
+   * アセット群を読み込み、ファイルごとの成否を返す
+   * 失敗したアセットはミラーのオリジンを順に試してから失敗として返す
+   */
+  private async runLoadBatch(
+    assets: AssetConfig[],
+    priority: LoadPriority,
+    shouldAbort: (key: string) => boolean,
+    onProgress: (progress: number) => void
+  ): Promise<LoadBatchOutcome> {
+    const outcome: LoadBatchOutcome = {
+      loaded: [],
+      failed: [],
+      aborted: [],
+      validation: [],
+    };
+    let pending = assets;
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      const settled = assets.length - pending.length;
+      const count = pending.length;
+      const pass = await this.runLoaderPass(
+        pending,
+        priority,
+        attempt,
+        // 別のオリジンが残っている間は失敗しても打ち切らない
+        (key) =>
+          !this.hasMirror(this.assetRegistry.get(key), attempt) &&
+          shouldAbort(key),
+        (progress) => onProgress((settled + progress * count) / assets.length)
+      );
+      outcome.loaded.push(...pass.loaded);
+      outcome.aborted.push(...pass.aborted);
+      outcome.validation.push(...pass.validation);
+
+      pending = [];
+      for (const [asset, reason] of pass.failed) {
+        if (this.hasMirror(asset, attempt)) {
+          const mirror = this.getOrigins()[attempt + 1];
+          console.warn(
+            `Asset '${asset.key}' failed (${reason}), trying mirror ${mirror}`
+          );
+          pending.push(asset);
+        } else {
+          outcome.failed.push([asset, reason]);
+        }
+      }
+    }
+    return outcome;
+  }
+
+  /**
+   * アセット群を Phaser のローダーで1回分読み込み、ファイルごとの成否を返す
+   * attempt 番目のオリジン（0: baseURL、1以降: ミラー）から読み込む。
+   * shouldAbort が true を返す失敗が起きた場合、未開始のファイルは読み込まずに打ち切る。
+   * プリフェッチ中は同時ダウンロード数を prefetchConcurrency に制限する
+   */
+  private async runLoaderPass(
+    assets: AssetConfig[],
+    priority: LoadPriority,
+    attempt: number,
+    shouldAbort: (key: string) => boolean,
+    onProgress: (progress: number) => void
+  ): Promise<LoadBatchOutcome> {
+    const loader = this.scene.load;
+    const batchKeys = new Set(assets.map((asset) => asset.key));
+    // 永続キャッシュに保存済みのファイルは Blob URL に置き換えて読み込む
+    const resolved = await Promise.all(
+      assets.map((asset) => {
+        if (asset.type === AssetType.GENERATED_TEXTURE) {
+          return asset;
+        }
+        const selected = this.applyVariant(asset);
+        return this.applyPersistentCache(
+          selected,
+          this.resolveAssetURLs(selected, attempt)
+        );
+      })
+    );
+    const variantLabels = new Map(
+      resolved.map((asset) => [asset.key, asset.variant ?? ""])
+    );
+    const resolvedAssets = new Map(resolved.map((asset) => [asset.key, asset]));
+    const webFonts = resolved.filter(
+      (asset) => asset.type === AssetType.WEB_FONT
+    );
+    const generatedTextures = resolved.filter(
+      (asset) => asset.type === AssetType.GENERATED_TEXTURE
+    );
+    const loaderAssets = resolved.filter(
+      (asset) =>
+        asset.type !== AssetType.WEB_FONT &&
+        asset.type !== AssetType.GENERATED_TEXTURE
+    );
+    const errors: Map<string, string> = new Map();
+    const validation: Map<string, AssetValidationReport> = new Map();
+    const startedFiles: Set<Phaser.Loader.File> = new Set();
+    const maxParallelDownloads = loader.maxParallelDownloads;
+    let aborted = false;
+
+    if (priority === LoadPriority.PREFETCH) {
+      loader.maxParallelDownloads = Math.min(
+        maxParallelDownloads,
+        this.config.prefetchConcurrency ?? 2
+      );
+    }
+
+    return new Promise((resolve) => {
+      // アセットを読み込みキューに追加
+      try {
+        for (const asset of loaderAssets) {
+          this.addToLoadQueue(asset);
+        }
+      } catch (error) {
+        this.dropPendingFiles(Array.from(batchKeys));
+        batchKeys.forEach((key) => this.droppedKeys.delete(key));
+        loader.maxParallelDownloads = maxParallelDownloads;
+        throw error;
+      }
+
+      // Phaser のローダーにはファイルごとの開始イベントがないため、最初の通知で開始とみなす
+      const startFile = (asset: AssetConfig, file: Phaser.Loader.File) => {
+        if (!startedFiles.has(file)) {
+          startedFiles.add(file);
+          this.events.emit("fileStart", { asset, url: file.src });
+        }
+      };
+
+      const onFileProgress = (file: Phaser.Loader.File, percent: number) => {
+        const asset = resolvedAssets.get(file.multiFile?.key ?? file.key);
+        if (!asset) {
+          return;
+        }
+        startFile(asset, file);
+        this.events.emit("fileProgress", {
+          asset,
+          url: file.src,
+          bytesLoaded: file.bytesLoaded,
+          bytesTotal: file.bytesTotal,
+          percent,
+        });
+      };
+
+      const onLoadError = (file: Phaser.Loader.File) => {
+        const key = file.multiFile?.key ?? file.key;
+        const asset = resolvedAssets.get(key);
+        if (asset) {
+          startFile(asset, file);
+          this.events.emit("fileFailed", {
+            asset,
+            url: file.src,
+            reason: describeLoadError(file),
+            attempt,
+          });
+        }
+        if (!batchKeys.has(key) || errors.has(key)) {
+          return;
+        }
+        errors.set(key, describeLoadError(file));
+
+        if (!aborted && shouldAbort(key)) {
+          aborted = true;
+          this.dropPendingFiles(Array.from(batchKeys));
+        }
+      };
+
+      const onFileLoad = (file: Phaser.Loader.File) => {
+        const key = file.multiFile?.key ?? file.key;
+        const asset = resolvedAssets.get(key);
+        if (asset) {
+          const bytes = measureTransferredBytes(file);
+          // アトラスなど複数ファイルからなるアセットは合計する
+          this.transferredBytes.set(
+            key,
+            (this.transferredBytes.get(key) ?? 0) + bytes
+          );
+          this.recordAssetURL(key, file.src);
+          startFile(asset, file);
+          this.events.emit("fileLoaded", { asset, url: file.src, bytes });
+        }
+      };
+
+      // キャッシュに追加された直後にデータを検証する
+      const onFileComplete = (key: string) => {
+        const asset = this.assetRegistry.get(key);
+        if (!asset || !batchKeys.has(key)) {
+          return;
+        }
+        const report = this.validateAsset(asset);
+        if (report) {
+          validation.set(key, report);
+        }
+      };
+
+      // Web フォントは Phaser のローダーを使わず、使用可能になるまで待つ
+      let loaderProgress = 0;
+      let othersDone = 0;
+      const reportProgress = () =>
+        onProgress(
+          (loaderProgress * loaderAssets.length + othersDone) / assets.length
+        );
+      const onLoaderProgress = (progress: number) => {
+        loaderProgress = progress;
+        reportProgress();
+      };
+      const fontLoads = Promise.all(
+        webFonts.map((asset) => {
+          const url = Array.isArray(asset.path) ? asset.path[0] : asset.path;
+          this.events.emit("fileStart", { asset, url });
+          return this.loadWebFont(asset)
+            .then(() => {
+              this.events.emit("fileLoaded", { asset, url, bytes: 0 });
+            })
+            .catch((error) => {
+              const reason =
+                error instanceof Error ? error.message : String(error);
+              errors.set(asset.key, reason);
+              this.events.emit("fileFailed", { asset, url, reason, attempt });
+            })
+            .finally(() => {
+              othersDone++;
+              reportProgress();
+            });
+        })
+      );
+
+      // 生成テクスチャはファイルを読み込まず、その場で描画する
+      for (const asset of generatedTextures) {
+        this.events.emit("fileStart", { asset, url: "" });
+        try {
+          generateTexture(
+            this.scene,
+            asset.key,
+            asset.options.generator,
+            asset.options.params
+          );
+          this.events.emit("fileLoaded", { asset, url: "", bytes: 0 });
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          errors.set(asset.key, reason);
+          this.events.emit("fileFailed", { asset, url: "", reason, attempt });
+        }
+        othersDone++;
+        reportProgress();
+      }
+
+      batchKeys.forEach((key) => {
+        this.transferredBytes.delete(key);
+        this.assetURLs.delete(key);
+      });
+      loader.on("progress", onLoaderProgress);
+      loader.on("fileprogress", onFileProgress);
+      loader.on("load", onFileLoad);
+      loader.on("loaderror", onLoadError);
+      loader.on("filecomplete", onFileComplete);
+      loader.once("complete", async () => {
+        loader.off("progress", onLoaderProgress);
+        loader.off("fileprogress", onFileProgress);
+        loader.off("load", onFileLoad);
+        loader.off("loaderror", onLoadError);
+        loader.off("filecomplete", onFileComplete);
+        loader.maxParallelDownloads = maxParallelDownloads;
+        await fontLoads;
+
+        const outcome: LoadBatchOutcome = {
+          loaded: [],
+          failed: [],
+          aborted: [],
+          validation: Array.from(validation.values()),
+        };
+        for (const asset of assets) {
+          // メディアは再生中に URL を参照するため、読み込めた場合は Blob URL を残す
+          if (!isMediaAsset(asset.type) || !this.isInCache(asset)) {
+            this.revokeBlobURLs(asset.key);
+          }
+
+          const error = errors.get(asset.key);
+          if (validation.get(asset.key)?.blocked) {
+            // 検証エラーはスケジューラーが failed として記録する
+            this.droppedKeys.delete(asset.key);
+            continue;
+          }
+          if (error) {
+            outcome.failed.push([asset, error]);
+          } else if (this.isInCache(asset)) {
+            outcome.loaded.push(asset);
+            this.activeVariants.set(asset.key, variantLabels.get(asset.key)!);
+          } else if (this.droppedKeys.has(asset.key)) {
+            outcome.aborted.push(asset);
+          } else {
+            outcome.failed.push([asset, "Asset was not added to the cache"]);
+          }
+          this.droppedKeys.delete(asset.key);
+        }
+        resolve(outcome);
+      });
+
+      // 読み込み開始
+      loader.start();
+    });
+  }
+
+  /**
+   * JSON・XMLアセットを登録時のスキーマ・検証関数で検証する
+   * スキーマのデフォルト値と変換を適用したデータでキャッシュを置き換え、
+   * blockOnInvalid 指定時に検証エラーがあればキャッシュから取り除く
+   */
+  private validateAsset(asset: AssetConfig): AssetValidationReport | null {
+    if (asset.type !== AssetType.JSON && asset.type !== AssetType.XML) {
+      return null;
+    }
+    const options: JsonAssetOptions | XmlAssetOptions | undefined =
+      asset.options;
+    const schema = asset.type === AssetType.JSON ? asset.options?.schema : null;
+    if (!schema && !options?.validate) {
+      return null;
+    }
+
+    const cache =
+      asset.type === AssetType.JSON
+        ? this.scene.cache.json
+        : this.scene.cache.xml;
+    let data = cache.get(asset.key);
+    const errors: SchemaError[] = [];
+    let transformed = false;
+
+    if (schema) {
+      // transform が投げたエラーもスキーマ違反と同じく検証の失敗として扱う
+      try {
+        const result = validateSchema(schema, data);
+        errors.push(...result.errors);
+        data = result.value;
+        transformed = true;
+      } catch (error) {
+        errors.push({ path: "(root)", message: String(error) });
+      }
+    }
+
+    if (options?.validate) {
+      try {
+        if (!options.validate(data)) {
+          errors.push({ path: "(root)", message: "Rejected by validator" });
+        }
+      } catch (error) {
+        errors.push({ path: "(root)", message: String(error) });
+      }
+    }
+
+    const blocked = errors.length > 0 && !!options?.blockOnInvalid;
+    if (blocked) {
+      this.removeFromCache(asset);
+    } else if (transformed) {
+      cache.remove(asset.key);
+      cache.add(asset.key, data);
+    }
+
+    if (errors.length === 0) {
+      return null;
+    }
+    const details = errors
+      .map((error) => `  ${error.path}: ${error.message}`)
+      .join("\n");
+    console.warn(`Asset '${asset.key}' failed validation:\n${details}`);
+    return { key: asset.key, errors, blocked };
+  }
+
+  /**
+   * Web フォントを読み込み、document.fonts に追加する
+   * CSS の場合はスタイルシートを追加し、各ファミリーが使えるようになるまで待つ
+   */
+  private async loadWebFont(asset: AssetConfig): Promise<void> {
+    const options: WebFontOptions & WebFontStylesheetOptions =
+      asset.options ?? {};
+    const timeout = options.timeout ?? 10000;
+
+    if (options.stylesheet) {
+      const link = await loadStylesheet(asset.path as string);
+      try {
+        const faces = await withTimeout(
+          Promise.all(
+            (options.families ?? []).map((family) => waitForFontFamily(family))
+          ),
+          timeout,
+          `Font '${asset.key}' did not become available within ${timeout}ms`
+        );
+        this.webFonts.set(asset.key, { faces: faces.flat(), link });
+        this.recordAssetURL(asset.key, asset.path as string);
+      } catch (error) {
+        link.remove();
+        throw error;
+      }
+      return;
+    }
+
+    const urls = Array.isArray(asset.path) ? asset.path : [asset.path];
+    const source = urls
+      .map(
+        (url) =>
+          `url("${url}") format("${options.format ?? guessFontFormat(url)}")`
+      )
+      .join(", ");
+    const face = new FontFace(
+      options.family ?? asset.key,
+      source,
+      options.descriptors
+    );
+    await withTimeout(
+      face.load(),
+      timeout,
+      `Font '${asset.key}' did not load within ${timeout}ms`
+    );
+    document.fonts.add(face);
+    this.webFonts.set(asset.key, { faces: [face] });
+    this.recordAssetURL(asset.key, urls[0]);
+  }
+
+  /**
+   * 読み込みに使うオリジンの一覧（baseURL、ミラーの順）を取得
+   */
+  private getOrigins(): string[] {
+    return [this.config.baseURL ?? "", ...(this.config.mirrors ?? [])];
+  }
+
+  /**
+   * attempt 番目のオリジンの次に試せるミラーがあるかチェック
+   * 絶対 URL のみのアセットはミラーを使わない
+   */
+  private hasMirror(asset: AssetConfig | undefined, attempt: number): boolean {
+    if (
+      !asset ||
+      asset.type === AssetType.GENERATED_TEXTURE ||
+      attempt + 1 >= this.getOrigins().length
+    ) {
+      return false;
+    }
+    const paths = Array.isArray(asset.path) ? asset.path : [asset.path];
+    return paths.some((path) => !isAbsoluteURL(path));
+  }
+
+  /**
+   * アセットのパスに attempt 番目のオリジンとバージョンを適用した設定を作成
+   */
+  private resolveAssetURLs(asset: AssetConfig, attempt: number): AssetConfig {
+    const origin = this.getOrigins()[attempt] ?? "";
+    const version = this.getAssetVersion(asset);
+    const versionParam = this.config.versionParam ?? "v";
+    const resolve = (url: string) =>
+      resolveAssetURL(url, origin, version, versionParam);
+
+    const resolved: AssetConfig = {
+      ...asset,
+      path: Array.isArray(asset.path)
+        ? asset.path.map(resolve)
+        : resolve(asset.path),
+    };
+    if (asset.atlasPath) {
+      resolved.atlasPath = resolve(asset.atlasPath);
+    }
+    if (asset.dataPath) {
+      resolved.dataPath = resolve(asset.dataPath);
+    }
+    if (asset.options?.fontDataURL) {
+      resolved.options = {
+        ...asset.options,
+        fontDataURL: resolve(asset.options.fontDataURL),
+      };
+    }
+    if (asset.type === AssetType.MULTIATLAS && asset.options?.path) {
+      // テクスチャの読み込み元ディレクトリにはバージョンを付けない
+      resolved.options = {
+        ...asset.options,
+        path: resolveAssetURL(asset.options.path, origin),
+      };
+    }
+    return resolved;
+  }
+
+  /**
+   * アセットの URL に付けるバージョンを取得
+   */
+  private getAssetVersion(asset: AssetConfig): string | undefined {
+    return (
+      asset.version ??
+      this.config.assetVersions?.[asset.key] ??
+      this.config.version
+    );
+  }
+
+  /**
+   * 解決済みの URL を永続キャッシュ経由の URL に置き換えた設定を作成
+   * 複数形式の音声は端末で再生できる形式を1つ選んで保存する。
+   * CSS の Web フォントはスタイルシート内の相対 URL が壊れるため対象外
+   */
+  private async applyPersistentCache(
+    asset: AssetConfig,
+    resolved: AssetConfig
+  ): Promise<AssetConfig> {
+    const cache = this.persistentCache;
+    if (
+      !cache ||
+      (asset.type === AssetType.WEB_FONT && asset.options?.stylesheet)
+    ) {
+      return resolved;
+    }
+
+    const version = this.getAssetVersion(asset);
+    const fetchFile = async (field: string, source: string, url: string) => {
+      const result = await cache.fetch(
+        `${asset.key}#${field}${asset.variant ? `@${asset.variant}` : ""}`,
+        source,
+        url,
+        version
+      );
+      if (result.hit) {
+        this.cacheHits++;
+      } else {
+        this.cacheMisses++;
+      }
+      if (result.url !== url) {
+        this.blobSources.set(result.url, url);
+        this.blobURLs.set(asset.key, [
+          ...(this.blobURLs.get(asset.key) ?? []),
+          result.url,
+        ]);
+      }
+      return result.url;
+    };
+
+    const cached: AssetConfig = { ...resolved };
+    if (!Array.isArray(asset.path)) {
+      cached.path = await fetchFile(
+        "path",
+        asset.path,
+        resolved.path as string
+      );
+    } else if (
+      asset.type === AssetType.AUDIO ||
+      asset.type === AssetType.AUDIO_SPRITE
+    ) {
+      const index = this.findPlayableAudio(resolved.path as string[]);
+      if (index >= 0) {
+        cached.path = [
+          await fetchFile(
+            "path",
+            asset.path[index],
+            (resolved.path as string[])[index]
+          ),
+        ];
+      }
+    }
+    if (asset.atlasPath) {
+      cached.atlasPath = await fetchFile(
+        "atlasPath",
+        asset.atlasPath,
+        resolved.atlasPath!
+      );
+    }
+    if (asset.dataPath) {
+      cached.dataPath = await fetchFile(
+        "dataPath",
+        asset.dataPath,
+        resolved.dataPath!
+      );
+    }
+    if (asset.options?.fontDataURL) {
+      cached.options = {
+        ...resolved.options,
+        fontDataURL: await fetchFile(
+          "fontDataURL",
+          asset.options.fontDataURL,
+          resolved.options.fontDataURL
+        ),
+      };
+    }
+    return cached;
+  }
+
+  /**
+   * 端末で再生できる最初の音声 URL の位置を取得
+   */
+  private findPlayableAudio(urls: string[]): number {
+    const support = this.scene.sys.game.device.audio as unknown as {
+      [format: string]: boolean;
+    };
+    return urls.findIndex((url) => {
+      const extension = url.match(/\.([a-zA-Z0-9]+)($|\?)/)?.[1];
+      return !!extension && support[extension.toLowerCase()];
+    });
+  }
+
+  /**
+   * アセットの読み込みに使った URL を記録
+   * Blob URL は置き換える前の URL として記録する
+   */
+  private recordAssetURL(key: string, url: string): void {
+    this.assetURLs.set(key, [
+      ...(this.assetURLs.get(key) ?? []),
+      this.blobSources.get(url) ?? url,
+    ]);
+  }
+
+  /**
+   * アセット用に作成した Blob URL を解放
+   */
+  private revokeBlobURLs(key: string): void {
+    for (const url of this.blobURLs.get(key) ?? []) {
+      URL.revokeObjectURL(url);
+      this.blobSources.delete(url);
+    }
+    this.blobURLs.delete(key);
+  }
+
+  /**
+   * 永続キャッシュを取得（設定されていない場合は null）
+   */
+  getPersistentCache(): PersistentAssetCache | null {
+    return this.persistentCache;
+  }
+
+  /**
+   * まだ読み込みが始まっていないファイルをローダーのリストから取り除く
+   */
+  private dropPendingFiles(keys: string[]): void {
+    const loader = this.scene.load;
+    for (const file of loader.list.getArray()) {
+      const key = file.multiFile?.key ?? file.key;
+      if (keys.includes(key)) {
+        loader.list.delete(file);
+        this.droppedKeys.add(key);
+      }
+    }
+  }
+
+  /**
+   * アセットを読み込みキューに追加
+   */
+  private addToLoadQueue(asset: AssetConfig): void {
+    const loader = this.scene.load;
+
+    switch (asset.type) {
+      case AssetType.IMAGE:
+        loader.image(asset.key, asset.path, asset.options);
+        break;
+      case AssetType.SPRITESHEET:
+        loader.spritesheet(
+          asset.key,
+          asset.path as string,
+          asset.frameConfig!,
+          asset.options
+        );
+        break;
+
+      case AssetType.ATLAS:
+        loader.atlas(asset.key, asset.path, asset.atlasPath!, asset.options);
+        break;
+
+      case AssetType.AUDIO:
+        loader.audio(asset.key, asset.path, asset.options);
+        break;
+
+      case AssetType.JSON:
+        loader.json(
+          asset.key,
+          asset.path,
+          asset.options?.dataKey,
+          asset.options?.xhrSettings
+        );
+        break;
+      case AssetType.XML:
+        loader.xml(asset.key, asset.path as string, asset.options?.xhrSettings);
+        break;
+
+      case AssetType.FONT:
+      case AssetType.BITMAP_FONT:
+        loader.bitmapFont(asset.key, asset.path, asset.options?.fontDataURL);
+        break;
+
+      case AssetType.TILEMAP_JSON:
+        loader.tilemapTiledJSON(
+          asset.key,
+          asset.path as string,
+          asset.options?.xhrSettings
+        );
+        break;
+      case AssetType.TILEMAP_CSV:
+        loader.tilemapCSV(
+          asset.key,
+          asset.path as string,
+          asset.options?.xhrSettings
+        );
+        break;
+
+      case AssetType.MULTIATLAS:
+        loader.multiatlas(
+          asset.key,
+          asset.path as string,
+          asset.options?.path,
+          asset.options?.baseURL,
+          asset.options?.xhrSettings
+        );
+        break;
+      case AssetType.ASEPRITE:
+        loader.aseprite(
+          asset.key,
+          asset.path,
+          asset.atlasPath!,
+          asset.options?.textureXhrSettings,
+          asset.options?.atlasXhrSettings
+        );
+        break;
+      case AssetType.SVG:
+        loader.svg(
+          asset.key,
+          asset.path as string,
+          {
+            width: asset.options?.width,
+            height: asset.options?.height,
+            scale: asset.options?.scale,
+          },
+          asset.options?.xhrSettings
+        );
+        break;
+
+      case AssetType.VIDEO:
+        loader.video(asset.key, asset.path, asset.options?.noAudio);
+        break;
+      case AssetType.GLSL:
+        loader.glsl(
+          asset.key,
+          asset.path as string,
+          asset.options?.shaderType,
+          asset.options?.xhrSettings
+        );
+        break;
+
+      case AssetType.TEXT:
+      case AssetType.CSV:
+        loader.text(
+          asset.key,
+          asset.path as string,
+          asset.options?.xhrSettings
+        );
+        break;
+      case AssetType.BINARY:
+        loader.binary(
+          asset.key,
+          asset.path as string,
+          asset.options?.dataType,
+          asset.options?.xhrSettings
+        );
+        break;
+      case AssetType.HTML:
+        loader.html(
+          asset.key,
+          asset.path as string,
+          asset.options?.xhrSettings
+        );
+        break;
+
+      case AssetType.AUDIO_SPRITE:
+        loader.audioSprite(
+          asset.key,
+          asset.dataPath!,
+          asset.path,
+          { instances: asset.options?.instances },
+          asset.options?.audioXhrSettings,
+          asset.options?.jsonXhrSettings
+        );
+        break;
+    }
+  }
+
+  /**
+   * 読み込み完了時の処理
+   */
+  private onLoadComplete(loadedAssets: AssetConfig[]): void {
+    const now = Date.now();
+    for (const asset of loadedAssets) {
+      this.loadedAssets.set(asset.key, {
+        key: asset.key,
+        type: asset.type,
+        loadedAt: now,
+        lastUsedAt: now,
+      });
+      if (this.config.trackUsage) {
+        // アンロード後もレポートでサイズを示せるよう読み込み時に記録する
+        const record = this.getUsageRecord(asset.key);
+        record.loadCount++;
+        record.peakMemoryBytes = Math.max(
+          record.peakMemoryBytes,
+          this.measureAsset(asset).memoryBytes
+        );
+      }
+    }
+    this.enforceMemoryBudget(loadedAssets.map((asset) => asset.key));
+  }
+
+  /**
+   * アセットが読み込み済みかチェック
+   */
+  isLoaded(key: AssetKey<R>): boolean {
+    return this.isAssetLoaded(key);
+  }
+
+  /**
+   * 読み込み済みアセットの取得に実際に使われた URL を取得
+   * アトラスなど複数ファイルからなるアセットは全ファイル分を返す
+   */
+  getAssetURLs(key: AssetKey<R>): string[] {
+    if (!this.isAssetLoaded(key)) {
+      return [];
+    }
+    return [...(this.assetURLs.get(key) ?? [])];
+  }
+
+  /**
+   * キーのアセットが読み込み済みかチェック（内部用）
+   */
+  private isAssetLoaded(key: string): boolean {
+    const asset = this.assetRegistry.get(key);
+    return !!asset && this.loadedAssets.has(key) && this.isInCache(asset);
+  }
+
+  /**
+   * アセットがタイプに対応するキャッシュに存在するかチェック
+   */
+  private isInCache(asset: AssetConfig): boolean {
+    const { key } = asset;
+    switch (asset.type) {
+      case AssetType.IMAGE:
+      case AssetType.SPRITESHEET:
+      case AssetType.ATLAS:
+      case AssetType.MULTIATLAS:
+      case AssetType.SVG:
+      case AssetType.GENERATED_TEXTURE:
+        return this.scene.textures.exists(key);
+      case AssetType.ASEPRITE:
+        return (
+          this.scene.textures.exists(key) && this.scene.cache.json.exists(key)
+        );
+      case AssetType.AUDIO:
+        return this.scene.cache.audio.exists(key);
+      case AssetType.AUDIO_SPRITE:
+        return (
+          this.scene.cache.audio.exists(key) &&
+          this.scene.cache.json.exists(key)
+        );
+      case AssetType.JSON:
+        return this.scene.cache.json.exists(key);
+      case AssetType.XML:
+        return this.scene.cache.xml.exists(key);
+      case AssetType.FONT:
+      case AssetType.BITMAP_FONT:
+        return this.scene.cache.bitmapFont.exists(key);
+      case AssetType.WEB_FONT:
+        return this.webFonts.has(key);
+      case AssetType.TILEMAP_JSON:
+      case AssetType.TILEMAP_CSV:
+        return this.scene.cache.tilemap.exists(key);
+      case AssetType.VIDEO:
+        return this.scene.cache.video.exists(key);
+      case AssetType.GLSL:
+        return this.scene.cache.shader.exists(key);
+      case AssetType.TEXT:
+      case AssetType.CSV:
+        return this.scene.cache.text.exists(key);
+      case AssetType.BINARY:
+        return this.scene.cache.binary.exists(key);
+      case AssetType.HTML:
+        return this.scene.cache.html.exists(key);
+    }
+  }
+
+  /**
+   * アセットをタイプに対応するキャッシュから削除
+   */
+  private removeFromCache(asset: AssetConfig): void {
+    const { key } = asset;
+    this.revokeBlobURLs(key);
+    this.activeVariants.delete(key);
+    switch (asset.type) {
+      case AssetType.IMAGE:
+      case AssetType.SPRITESHEET:
+      case AssetType.ATLAS:
+      case AssetType.MULTIATLAS:
+      case AssetType.SVG:
+      case AssetType.GENERATED_TEXTURE:
+        this.scene.textures.remove(key);
+        break;
+      case AssetType.ASEPRITE:
+        this.scene.textures.remove(key);
+        this.scene.cache.json.remove(key);
+        break;
+      case AssetType.AUDIO:
+        this.scene.sound.removeByKey(key);
+        this.scene.cache.audio.remove(key);
+        break;
+      case AssetType.AUDIO_SPRITE:
+        this.scene.sound.removeByKey(key);
+        this.scene.cache.audio.remove(key);
+        this.scene.cache.json.remove(key);
+        break;
+      case AssetType.TILEMAP_JSON:
+      case AssetType.TILEMAP_CSV:
+        this.scene.cache.tilemap.remove(key);
+        break;
+      case AssetType.VIDEO:
+        this.scene.cache.video.remove(key);
+        break;
+      case AssetType.GLSL:
+        this.scene.cache.shader.remove(key);
+        break;
+      case AssetType.TEXT:
+      case AssetType.CSV:
+        this.scene.cache.text.remove(key);
+        break;
+      case AssetType.BINARY:
+        this.scene.cache.binary.remove(key);
+        break;
+      case AssetType.HTML:
+        this.scene.cache.html.remove(key);
+        break;
+      case AssetType.JSON:
+        this.scene.cache.json.remove(key);
+        break;
+      case AssetType.XML:
+        this.scene.cache.xml.remove(key);
+        break;
+      case AssetType.FONT:
+      case AssetType.BITMAP_FONT:
+        this.scene.cache.bitmapFont.remove(key);
+        this.scene.textures.remove(key);
+        break;
+      case AssetType.WEB_FONT: {
+        const handle = this.webFonts.get(key);
+        handle?.faces.forEach((face) => document.fonts.delete(face));
+        handle?.link?.remove();
+        this.webFonts.delete(key);
+        break;
+      }
+    }
+  }
+
+  /**
+   * 最終使用時刻を更新
+   */
+  private touch(key: string): void {
+    const info = this.loadedAssets.get(key);
+    if (info) {
+      info.lastUsedAt = Date.now();
+    }
+  }
+
+  /**
+   * ゲッターからのアクセスを記録
+   * trackUsage 指定時はアクセス回数・時刻と、その時点で動作中のシーンを記録する
+   */
+  private recordAccess(key: string): void {
+    this.touch(key);
+    if (!this.config.trackUsage) {
+      return;
+    }
+    const now = Date.now();
+    const record = this.getUsageRecord(key);
+    record.accessCount++;
+    record.firstAccessAt ??= now;
+    record.lastAccessAt = now;
+    for (const scene of this.scene.sys.game.scene.getScenes(true)) {
+      record.scenes.add(scene.sys.settings.key);
+    }
+  }
+
+  /**
+   * ゲッターを経由せずに使ったアセット（SoundManager が再生する音声など）の使用を記録
+   */
+  markUsed(key: AssetKey<R>): this {
+    if (this.isAssetLoaded(key)) {
+      this.recordAccess(key);
+    }
+    return this;
+  }
+
+  private getUsageRecord(key: string): AssetUsageRecord {
+    let record = this.usage.get(key);
+    if (!record) {
+      record = {
+        loadCount: 0,
+        accessCount: 0,
+        firstAccessAt: null,
+        lastAccessAt: null,
+        scenes: new Set(),
+        peakMemoryBytes: 0,
+      };
+      this.usage.set(key, record);
+    }
+    return record;
+  }
+
+  /**
+   * アセットの参照を取得（参照カウントを増やす）
+   */
+  acquire(keys: AssetKey<R> | AssetKey<R>[], owner: string = "default"): this {
+    // 依存先も合わせて保持する
+    const keyList = (Array.isArray(keys) ? keys : [keys]).flatMap((key) => [
+      key,
+      ...this.collectDependencies(key),
+    ]);
+    const held = this.ownerReferences.get(owner) ?? [];
+
+    for (const key of keyList) {
+      if (!this.assetRegistry.has(key)) {
+        console.warn(`Cannot acquire unregistered asset '${key}'`);
+        continue;
+      }
+      this.referenceCounts.set(key, (this.referenceCounts.get(key) ?? 0) + 1);
+      held.push(key);
+      this.touch(key);
+    }
+
+    this.ownerReferences.set(owner, held);
+    return this;
+  }
+
+  /**
+   * アセットの参照を解放（参照カウントを減らす）
+   * 参照がなくなったアセットは自動的にアンロードされる
+   */
+  release(keys: AssetKey<R> | AssetKey<R>[], owner: string = "default"): this {
+    const keyList = Array.isArray(keys) ? keys : [keys];
+    const held = this.ownerReferences.get(owner);
+    if (!held) {
+      return this;
+    }
+
+    const released: string[] = [];
+    for (const key of keyList) {
+      const index = held.indexOf(key);
+      if (index === -1) {
+        console.warn(`Owner '${owner}' does not hold asset '${key}'`);
+        continue;
+      }
+      held.splice(index, 1);
+      released.push(key);
+
+      // acquire で合わせて保持した依存先も解放する
+      for (const dependency of this.collectDependencies(key)) {
+        const dependencyIndex = held.indexOf(dependency);
+        if (dependencyIndex !== -1) {
+          held.splice(dependencyIndex, 1);
+          released.push(dependency);
+        }
+      }
+    }
+
+    if (held.length === 0) {
+      this.ownerReferences.delete(owner);
+    }
+
+    this.decrementReferences(released);
+    return this;
+  }
+
+  /**
+   * 所有者が保持している全ての参照を解放
+   */
+  releaseOwner(owner: string): this {
+    const held = this.ownerReferences.get(owner);
+    if (held) {
+      this.ownerReferences.delete(owner);
+      this.decrementReferences(held);
+    }
+    return this;
+  }
+
+  /**
+   * シーンが動作している間アセットを保持
+   * シーンの shutdown / destroy 時に自動で解放される
+   */
+  acquireForScene(
+    scene: Phaser.Scene,
+    keys: AssetKey<R> | AssetKey<R>[]
+  ): this {
+    const owner = `scene:${scene.sys.settings.key}`;
+    this.acquire(keys, owner);
+
+    if (!this.trackedScenes.has(scene)) {
+      this.trackedScenes.add(scene);
+      const onEnd = () => {
+        this.trackedScenes.delete(scene);
+        scene.events.off("shutdown", onEnd);
+        scene.events.off("destroy", onEnd);
+        this.releaseOwner(owner);
+      };
+      scene.events.once("shutdown", onEnd);
+      scene.events.once("destroy", onEnd);
+    }
+    return this;
+  }
+
+  /**
+   * パック内の全アセットを保持
+   */
+  acquirePack(name: string, owner: string = `pack:${name}`): this {
+    return this.acquire(this.getPackKeys(name), owner);
+  }
+
+  /**
+   * パック内の全アセットの保持を解放
+   */
+  releasePack(name: string, owner: string = `pack:${name}`): this {
+    return this.release(this.getPackKeys(name), owner);
+  }
+
+  /**
+   * アセットの参照カウントを取得
+   */
+  getReferenceCount(key: AssetKey<R>): number {
+    return this.referenceCounts.get(key) ?? 0;
+  }
+
+  /**
+   * 参照カウントを減らし、参照がなくなったアセットを処理
+   */
+  private decrementReferences(keys: string[]): void {
+    const unreferenced: string[] = [];
+    for (const key of keys) {
+      const count = (this.referenceCounts.get(key) ?? 0) - 1;
+      if (count > 0) {
+        this.referenceCounts.set(key, count);
+      } else {
+        this.referenceCounts.delete(key);
+        unreferenced.push(key);
+      }
+    }
+
+    if (!this.config.autoUnload || unreferenced.length === 0) {
+      return;
+    }
+
+    if (this.config.memoryBudgetKB === undefined) {
+      unreferenced.forEach((key) => this.unloadKey(key, "released"));
+    } else {
+      // 予算内であれば再利用に備えてキャッシュに残す
+      this.enforceMemoryBudget();
+    }
+  }
+
+  /**
+   * メモリ予算を超えている間、参照のないアセットを古い順にアンロード
+   */
+  private enforceMemoryBudget(protectedKeys: string[] = []): void {
+    const budget = this.config.memoryBudgetKB;
+    if (budget === undefined) {
+      return;
+    }
+
+    let usage = this.getMemoryUsageKB();
+    if (usage <= budget) {
+      return;
+    }
+
+    const candidates = Array.from(this.loadedAssets.values())
+      .filter(
+        (info) =>
+          this.getReferenceCount(info.key as AssetKey<R>) === 0 &&
+          !protectedKeys.includes(info.key)
+      )
+      .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+
+    // 依存元をアンロードすると依存先もアンロードできるようになるため、減らせなくなるまで繰り返す
+    let unloaded = true;
+    while (usage > budget && unloaded) {
+      unloaded = false;
+      for (const info of candidates) {
+        if (usage <= budget) {
+          break;
+        }
+        const asset = this.assetRegistry.get(info.key);
+        if (
+          !asset ||
+          !this.loadedAssets.has(info.key) ||
+          this.getLoadedDependents(info.key).length > 0
+        ) {
+          continue;
+        }
+        // アンロード後はキャッシュから測れないため、先にサイズを取得しておく
+        const sizeKB = this.estimateAssetSizeKB(asset);
+        if (this.unloadKey(info.key, "budget")) {
+          usage -= sizeKB;
+          unloaded = true;
+        }
+      }
+    }
+
+    if (usage > budget) {
+      console.warn(
+        `Asset memory usage (${usage}KB) exceeds budget (${budget}KB) while all remaining assets are in use`
+      );
+    }
+  }
+
+  /**
+   * 読み込み済みアセットの推定メモリ使用量（KB）を取得
+   */
+  getMemoryUsageKB(): number {
+    let usage = 0;
+    for (const key of this.loadedAssets.keys()) {
+      const asset = this.assetRegistry.get(key);
+      if (asset) {
+        usage += this.estimateAssetSizeKB(asset);
+      }
+    }
+    return usage;
+  }
+
+  /**
+   * アセットをキャッシュからアンロード（登録情報は残す）
+   * 参照が残っている場合や、読み込み済みのアセットが依存している場合はアンロードしない
+   */
+  unloadAsset(key: AssetKey<R>): boolean {
+    return this.unloadKey(key, "manual");
+  }
+
+  /**
+   * アセットをアンロードし、evicted イベントを発行（内部用）
+   */
+  private unloadKey(key: string, reason: AssetEvictionReason): boolean {
+    if (this.getReferenceCount(key as AssetKey<R>) > 0) {
+      console.warn(`Asset '${key}' is still in use and cannot be unloaded`);
+      return false;
+    }
+
+    const dependents = this.getLoadedDependents(key);
+    if (dependents.length > 0) {
+      console.warn(
+        `Asset '${key}' is required by ${dependents.join(
+          ", "
+        )} and cannot be unloaded`
+      );
+      return false;
+    }
+
+    const asset = this.assetRegistry.get(key);
+    if (!asset || !this.loadedAssets.has(key)) {
+      return false;
+    }
+
+    this.removeFromCache(asset);
+    this.loadedAssets.delete(key);
+    this.events.emit("evicted", { asset, reason });
+    return true;
+  }
+
+  /**
+   * 登録されているアセットかチェック
+   */
+  isRegistered(key: string): boolean {
+    return this.assetRegistry.has(key);
+  }
+
+  /**
+   * 画像アセットを取得
+   */
+  getImage(key: AssetKey<R, TextureAssetType>): Phaser.Textures.Texture | null {
+    if (!this.isAssetLoaded(key)) {
+      console.warn(`Image asset '${key}' is not loaded`);
+      return null;
+    }
+    this.recordAccess(key);
+    return this.scene.textures.get(key);
+  }
+
+  /**
+   * 音声アセットを取得
+   */
+  getAudio(
+    key: AssetKey<R, AssetType.AUDIO | AssetType.AUDIO_SPRITE>
+  ): Phaser.Sound.BaseSound | null {
+    if (!this.isAssetLoaded(key)) {
+      console.warn(`Audio asset '${key}' is not loaded`);
+      return null;
+    }
+    this.recordAccess(key);
+    return this.scene.sound.get(key);
+  }
+
+  /**
+   * JSONデータを取得
+   */
+  getJSON<K extends AssetKey<R, AssetType.JSON>>(
+    key: K
+  ): AssetData<R, K> | null {
+    if (!this.isAssetLoaded(key)) {
+      console.warn(`JSON asset '${key}' is not loaded`);
+      return null;
+    }
+    this.recordAccess(key);
+    return this.scene.cache.json.get(key);
+  }
+
+  /**
+   * XMLデータを取得
+   */
+  getXML<K extends AssetKey<R, AssetType.XML>>(key: K): AssetData<R, K> | null {
+    if (!this.isAssetLoaded(key)) {
+      console.warn(`XML asset '${key}' is not loaded`);
+      return null;
+    }
+    this.recordAccess(key);
+    return this.scene.cache.xml.get(key);
+  }
+
+  /**
+   * タイルマップデータを取得
+   * data は Tiled JSON の場合はオブジェクト（レジストリ型で宣言した型）、CSV の場合は文字列
+   */
+  getTilemapData<
+    K extends AssetKey<R, AssetType.TILEMAP_JSON | AssetType.TILEMAP_CSV>
+  >(key: K): TilemapCacheData<AssetData<R, K>> | null {
+    if (!this.isAssetLoaded(key)) {
+      console.warn(`Tilemap asset '${key}' is not loaded`);
+      return null;
+    }
+    this.recordAccess(key);
+    return this.scene.cache.tilemap.get(key);
+  }
+
+  /**
+   * 動画データを取得
+   * Phaser 3.60 以降の動画キャッシュは要素ではなく URL を保持し、video ゲームオブジェクトの作成時に読み込まれる
+   */
+  getVideo(key: AssetKey<R, AssetType.VIDEO>): VideoCacheData | null {
+    if (!this.isAssetLoaded(key)) {
+      console.warn(`Video asset '${key}' is not loaded`);
+      return null;
+    }
+    this.recordAccess(key);
+    return this.scene.cache.video.get(key);
+  }
+
+  /**
+   * シェーダーを取得
+   */
+  getShader(
+    key: AssetKey<R, AssetType.GLSL>
+  ): Phaser.Display.BaseShader | null {
+    if (!this.isAssetLoaded(key)) {
+      console.warn(`Shader asset '${key}' is not loaded`);
+      return null;
+    }
+    this.recordAccess(key);
+    return this.scene.cache.shader.get(key);
+  }
+
+  /**
+   * テキストデータを取得
+   */
+  getText(key: AssetKey<R, AssetType.TEXT | AssetType.CSV>): string | null {
+    if (!this.isAssetLoaded(key)) {
+      console.warn(`Text asset '${key}' is not loaded`);
+      return null;
+    }
+    this.recordAccess(key);
+    return this.scene.cache.text.get(key);
+  }
+
+  /**
+   * CSV データを行・列の配列として取得
+   */
+  getCSV(key: AssetKey<R, AssetType.CSV>): string[][] | null {
+    const text = this.getText(
+      key as AssetKey<R, AssetType.TEXT | AssetType.CSV>
+    );
+    return text === null ? null : parseCSV(text);
+  }
+
+  /**
+   * バイナリデータを取得
+   */
+  getBinary(key: AssetKey<R, AssetType.BINARY>): ArrayBuffer | null {
+    if (!this.isAssetLoaded(key)) {
+      console.warn(`Binary asset '${key}' is not loaded`);
+      return null;
+    }
+    this.recordAccess(key);
+    return this.scene.cache.binary.get(key);
+  }
+
+  /**
+   * HTML データを取得
+   */
+  getHTML(key: AssetKey<R, AssetType.HTML>): string | null {
+    if (!this.isAssetLoaded(key)) {
+      console.warn(`HTML asset '${key}' is not loaded`);
+      return null;
+    }
+    this.recordAccess(key);
+    return this.scene.cache.html.get(key);
+  }
+
+  /**
+   * Web フォントの CSS font-family 文字列（フォールバック付き）を取得
+   * 読み込み前でもフォールバックで表示できるよう文字列は常に返す
+   */
+  getFontFamily(key: AssetKey<R, AssetType.WEB_FONT>): string {
+    const asset = this.assetRegistry.get(key);
+    const options: WebFontOptions & WebFontStylesheetOptions =
+      asset?.options ?? {};
+    const fallbacks = options.fallbacks ??
+      this.config.fontFallbacks ?? ["sans-serif"];
+
+    if (!asset || asset.type !== AssetType.WEB_FONT) {
+      console.warn(`Web font '${key}' is not registered`);
+      return fallbacks.join(", ");
+    }
+    if (this.isAssetLoaded(key)) {
+      this.recordAccess(key);
+    } else {
+      console.warn(`Web font '${key}' is not loaded`);
+    }
+
+    const families = options.stylesheet
+      ? options.families ?? []
+      : [options.family ?? key];
+    return [...families.map((family) => `"${family}"`), ...fallbacks].join(
+      ", "
+    );
+  }
+
+  /**
+   * オーディオスプライトのマーカー定義を取得
+   */
+  getAudioSprite(
+    key: AssetKey<R, AssetType.AUDIO_SPRITE>
+  ): AudioSpriteData | null {
+    if (!this.isAssetLoaded(key)) {
+      console.warn(`Audio sprite asset '${key}' is not loaded`);
+      return null;
+    }
+    this.recordAccess(key);
+    return this.scene.cache.json.get(key);
+  }
+
+  /**
+   * 読み込み済みアセット一覧を取得
+   */
+  getLoadedAssets(): AssetKey<R>[] {
+    return Array.from(this.loadedAssets.keys()) as AssetKey<R>[];
+  }
+
+  /**
+   * 登録済みアセット一覧を取得
+   * tree を指定した場合は、他のアセットから依存されていないアセットを根とする依存関係のツリーを返す
+   */
+  getRegisteredAssets(): AssetKey<R>[];
+  getRegisteredAssets(options: { tree: true }): AssetDependencyNode[];
+  getRegisteredAssets(options?: {
+    tree: true;
+  }): AssetKey<R>[] | AssetDependencyNode[] {
+    const keys = Array.from(this.assetRegistry.keys());
+    if (!options?.tree) {
+      return keys as AssetKey<R>[];
+    }
+
+    const dependedOn = new Set(Array.from(this.dependencies.values()).flat());
+    const buildNode = (key: string): AssetDependencyNode => ({
+      key,
+      type: this.assetRegistry.get(key)?.type ?? null,
+      loaded: this.isAssetLoaded(key),
+      dependencies: (this.dependencies.get(key) ?? []).map(buildNode),
+    });
+    return keys.filter((key) => !dependedOn.has(key)).map(buildNode);
+  }
+
+  /**
+   * アセットを削除
+   * 参照が残っている場合は force を指定しない限り削除しない
+   */
+  removeAsset(key: AssetKey<R>, force: boolean = false): boolean {
+    if (!force && this.getReferenceCount(key) > 0) {
+      console.warn(`Asset '${key}' is still in use and cannot be removed`);
+      return false;
+    }
+
+    const asset = this.assetRegistry.get(key);
+    if (asset && this.loadedAssets.has(key)) {
+      this.removeFromCache(asset);
+      this.events.emit("evicted", { asset, reason: "removed" });
+    }
+
+    this.assetRegistry.delete(key);
+    this.loadedAssets.delete(key);
+    this.referenceCounts.delete(key);
+    this.variants.delete(key);
+    this.dependencies.delete(key);
+    this.ownerReferences.forEach((held, owner) => {
+      const remaining = held.filter((heldKey) => heldKey !== key);
+      if (remaining.length > 0) {
+        this.ownerReferences.set(owner, remaining);
+      } else {
+        this.ownerReferences.delete(owner);
+      }
+    });
+    this.packs.forEach((keys) => {
+      const index = keys.indexOf(key);
+      if (index > -1) {
+        keys.splice(index, 1);
+      }
+    });
+    return true;
+  }
+
+  /**
+   * イベントリスナーを登録
+   */
+  on<K extends keyof AssetManagerEvents>(
+    event: K,
+    listener: TypedEventListener<AssetManagerEvents, K>
+  ): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * イベントリスナーを解除
+   */
+  off<K extends keyof AssetManagerEvents>(
+    event: K,
+    listener: TypedEventListener<AssetManagerEvents, K>
+  ): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * 読み込み済みアセットをファイルから読み込み直し、その場で置き換える（開発用）
+   * テクスチャを使っているゲームオブジェクトとアニメーションは新しいテクスチャに付け替え、
+   * 置き換え後に reloaded イベントを発行する。同時に呼ばれた場合は順に処理する
+   */
+  reloadAsset(key: AssetKey<R>): Promise<boolean> {
+    return this.enqueueReload(key, true);
+  }
+
+  /**
+   * リロードのきっかけを通知するソースを追加（開発用）
+   * 通知されたアセットキー、または登録時のパスに一致するアセットを読み込み直す。
+   * 戻り値はソースを切り離す関数
+   */
+  addReloadSource(source: HotReloadSource): () => void {
+    return source.connect((target) => {
+      const keys = this.assetRegistry.has(target)
+        ? [target]
+        : this.findKeysByPath(target);
+      if (keys.length === 0) {
+        console.warn(`No registered asset matches reload target '${target}'`);
+      }
+      keys.forEach((key) =>
+        this.reloadAsset(key as AssetKey<R>).catch((error) =>
+          console.error(`Failed to reload asset '${key}':`, error)
+        )
+      );
+    });
+  }
+
+  /**
+   * 読み込み直しを順番待ちのキューに追加
+   * 失敗した読み込み直しで後続が止まらないよう、キューには失敗を握りつぶした Promise を残す
+   */
+  private enqueueReload(key: string, bypassCache: boolean): Promise<boolean> {
+    const task = this.reloadQueue.then(() => this.reloadKey(key, bypassCache));
+    this.reloadQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * アセットを読み込み直して置き換える（内部用）
+   */
+  private async reloadKey(key: string, bypassCache: boolean): Promise<boolean> {
+    const asset = this.assetRegistry.get(key);
+    if (!asset || !this.isAssetLoaded(key)) {
+      console.warn(`Asset '${key}' is not loaded and cannot be reloaded`);
+      return false;
+    }
+    if (!RELOADABLE_ASSET_TYPES.includes(asset.type)) {
+      console.warn(`Reloading ${asset.type} assets is not supported`);
+      return false;
+    }
+
+    let replacement: AssetConfig;
+    try {
+      // スケジューラーのバッチとローダーを共有しないよう、バッチの合間に読み込む
+      replacement = await this.scheduler.runExclusive(() =>
+        this.loadReplacement(asset, bypassCache)
+      );
+    } catch (error) {
+      console.error(`Failed to reload asset '${key}':`, error);
+      return false;
+    }
+
+    if (isTextureAsset(asset.type)) {
+      this.swapTexture(key, replacement.key);
+    } else if (!this.swapCacheEntry(asset, replacement.key)) {
+      return false;
+    }
+
+    this.activeVariants.set(key, replacement.variant ?? "");
+    this.events.emit("reloaded", { asset: { ...replacement, key } });
+    return true;
+  }
+
+  /**
+   * バリエーション選択に使う解像度を取得
+   */
+  getResolution(): number {
+    return (
+      this.config.resolution ??
+      (typeof window !== "undefined" ? window.devicePixelRatio : 1) ??
+      1
+    );
+  }
+
+  /**
+   * 現在のロケールを取得
+   */
+  getLocale(): string | undefined {
+    return (
+      this.config.locale ??
+      (typeof navigator !== "undefined" ? navigator.language : undefined)
+    );
+  }
+
+  /**
+   * 現在の品質を取得
+   */
+  getQuality(): string | undefined {
+    return this.config.quality;
+  }
+
+  /**
+   * ロケールを変更し、選ばれるバリエーションが変わる読み込み済みアセットを読み込み直す
+   * 戻り値は読み込み直したアセットのキー
+   */
+  setLocale(locale: string): Promise<AssetKey<R>[]> {
+    this.config.locale = locale;
+    return this.reloadChangedVariants();
+  }
+
+  /**
+   * 品質を変更し、選ばれるバリエーションが変わる読み込み済みアセットを読み込み直す
+   * 戻り値は読み込み直したアセットのキー
+   */
+  setQuality(quality: string): Promise<AssetKey<R>[]> {
+    this.config.quality = quality;
+    return this.reloadChangedVariants();
+  }
+
+  /**
+   * 読み込み済みアセットに使われているバリエーションの解像度を取得
+   * @2x のテクスチャを論理サイズで表示する場合は 1 / 解像度 で拡大率を調整する
+   */
+  getAssetResolution(key: AssetKey<R>): number {
+    const label = this.activeVariants.get(key);
+    const variant = this.variants
+      .get(key)
+      ?.find((candidate) => describeVariant(candidate) === label);
+    return variant?.resolution ?? 1;
+  }
+
+  /**
+   * 選ばれるバリエーションが変わった読み込み済みアセットを読み込み直す
+   */
+  private async reloadChangedVariants(): Promise<AssetKey<R>[]> {
+    const changed = Array.from(this.variants.keys()).filter(
+      (key) =>
+        this.isAssetLoaded(key) &&
+        (this.activeVariants.get(key) ?? "") !==
+          (this.applyVariant(this.assetRegistry.get(key)!).variant ?? "")
+    );
+
+    const reloaded: AssetKey<R>[] = [];
+    for (const key of changed) {
+      const succeeded = await this.enqueueReload(key, false).catch((error) => {
+        console.error(`Failed to reload asset '${key}':`, error);
+        return false;
+      });
+      if (succeeded) {
+        reloaded.push(key as AssetKey<R>);
+      }
+    }
+    return reloaded;
+  }
+
+  /**
+   * 解像度・ロケール・品質から最適なバリエーションを選び、パスを置き換えた設定を作成
+   * ロケールは完全一致、言語一致、ロケールなしの順に優先し、一致しないロケールは使わない。
+   * 品質は現在の品質と一致するもの、品質なし、より低い品質の順に優先し、より高い品質は使わない。
+   * 解像度は端末の解像度以上で最小のもの、なければ最大のものを選ぶ
+   */
+  private applyVariant(asset: AssetConfig): AssetConfig {
+    const variants = this.variants.get(asset.key);
+    if (!variants || variants.length === 0) {
+      return asset;
+    }
+
+    const locale = this.getLocale()?.toLowerCase();
+    const tiers = this.config.qualityTiers ?? ["low", "medium", "high"];
+    const quality = this.config.quality ?? tiers[tiers.length - 1];
+    const qualityIndex = tiers.indexOf(quality);
+    const resolution = this.getResolution();
+
+    const scoreLocale = (variant: AssetVariant): number => {
+      if (!variant.locale) {
+        return 0;
+      }
+      const target = variant.locale.toLowerCase();
+      if (target === locale) {
+        return 2;
+      }
+      return target === locale?.split("-")[0] ? 1 : -1;
+    };
+    const scoreQuality = (variant: AssetVariant): number => {
+      if (!variant.quality) {
+        return 0;
+      }
+      if (variant.quality === quality) {
+        return 1;
+      }
+      const index = tiers.indexOf(variant.quality);
+      // 現在より低い品質は高いものから順に優先する
+      return index >= 0 && index < qualityIndex
+        ? index - tiers.length
+        : -Infinity;
+    };
+
+    const candidates: AssetVariant[] = [{ path: asset.path }, ...variants]
+      .map((variant) => ({
+        variant,
+        locale: scoreLocale(variant),
+        quality: scoreQuality(variant),
+      }))
+      .filter((entry) => entry.locale >= 0 && entry.quality > -Infinity)
+      .sort((a, b) => b.locale - a.locale || b.quality - a.quality)
+      .filter(
+        (entry, _, sorted) =>
+          entry.locale === sorted[0].locale &&
+          entry.quality === sorted[0].quality
+      )
+      .map((entry) => entry.variant);
+
+    const sufficient = candidates
+      .filter((variant) => (variant.resolution ?? 1) >= resolution)
+      .sort((a, b) => (a.resolution ?? 1) - (b.resolution ?? 1));
+    const selected =
+      sufficient[0] ??
+      [...candidates].sort(
+        (a, b) => (b.resolution ?? 1) - (a.resolution ?? 1)
+      )[0];
+
+    if (!selected || selected.path === asset.path) {
+      return asset;
+    }
+    return {
+      ...asset,
+      path: selected.path,
+      atlasPath: selected.atlasPath ?? asset.atlasPath,
+      dataPath: selected.dataPath ?? asset.dataPath,
+      options: selected.options
+        ? { ...asset.options, ...selected.options }
+        : asset.options,
+      variant: describeVariant(selected),
+    };
+  }
+
+  /**
+   * アセットを一時キーで読み込む
+   * URL のバージョンとミラーは元のキーで解決し、読み込めない場合は次のミラーを試す。
+   * bypassCache 指定時はブラウザのキャッシュを避けるため、URL に読み込みごとに異なるバージョンを付ける
+   */
+  private async loadReplacement(
+    asset: AssetConfig,
+    bypassCache: boolean
+  ): Promise<AssetConfig> {
+    const selected: AssetConfig = {
+      ...this.applyVariant(asset),
+      ...(bypassCache ? { version: String(Date.now()) } : {}),
+    };
+    const replacement: AssetConfig = {
+      ...selected,
+      key: `${asset.key}__reload${++this.reloadCount}`,
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      // バージョン・ミラーは元のキーで解決し、一時キーで読み込む
+      const resolved = this.resolveAssetURLs(selected, attempt);
+      try {
+        await this.loadTemporary({ ...resolved, key: replacement.key });
+        return replacement;
+      } catch (error) {
+        if (!this.hasMirror(selected, attempt)) {
+          throw error;
+        }
+        const mirror = this.getOrigins()[attempt + 1];
+        console.warn(
+          `Reloading '${asset.key}' failed (${
+            (error as Error).message
+          }), trying mirror ${mirror}`
+        );
+      }
+    }
+  }
+
+  /**
+   * 解決済みの URL で一時キーのアセットを読み込む（loadReplacement から呼ばれる）
+   */
+  private loadTemporary(replacement: AssetConfig): Promise<void> {
+    const loader = this.scene.load;
+    return new Promise((resolve, reject) => {
+      let error: string | null = null;
+      const onLoadError = (file: Phaser.Loader.File) => {
+        if ((file.multiFile?.key ?? file.key) === replacement.key) {
+          error = describeLoadError(file);
+        }
+      };
+
+      loader.on("loaderror", onLoadError);
+      loader.once("complete", () => {
+        loader.off("loaderror", onLoadError);
+        if (!error && this.isInCache(replacement)) {
+          resolve();
+        } else {
+          this.removeFromCache(replacement);
+          reject(new Error(error ?? "Asset was not added to the cache"));
+        }
+      });
+
+      this.addToLoadQueue(replacement);
+      loader.start();
+    });
+  }
+
+  /**
+   * テクスチャを一時キーで読み込んだものに置き換え、使用中のゲームオブジェクトとアニメーションを付け替える
+   */
+  private swapTexture(key: string, replacementKey: string): void {
+    const textures = this.scene.textures;
+    const users = this.findTextureUsers(key).map((object) => ({
+      object,
+      frame: object.frame?.name,
+    }));
+
+    textures.remove(key);
+    textures.renameTexture(replacementKey, key);
+    const texture = textures.get(key);
+
+    for (const { object, frame } of users) {
+      // 新しいテクスチャにないフレームはベースフレームにする
+      object.setTexture(
+        key,
+        frame !== undefined && texture.has(frame) ? frame : undefined
+      );
+    }
+
+    const anims = this.scene.anims;
+    for (const animationKey of anims.getAnimsFromTexture(key)) {
+      for (const frame of anims.get(animationKey).frames) {
+        if (frame.textureKey === key) {
+          frame.frame = texture.get(frame.textureFrame);
+        }
+      }
+    }
+  }
+
+  /**
+   * 全シーンの表示リストからテクスチャを使っているゲームオブジェクトを探す
+   */
+  private findTextureUsers(key: string): TextureUser[] {
+    const users: TextureUser[] = [];
+    const visit = (objects: Phaser.GameObjects.GameObject[]) => {
+      for (const object of objects) {
+        const user = object as unknown as Partial<TextureUser>;
+        if (
+          user.texture?.key === key &&
+          typeof user.setTexture === "function"
+        ) {
+          users.push(user as TextureUser);
+        }
+        // コンテナの子も対象にする
+        const children = (object as { list?: unknown }).list;
+        if (Array.isArray(children)) {
+          visit(children);
+        }
+      }
+    };
+
+    for (const scene of this.scene.sys.game.scene.getScenes(false)) {
+      visit(scene.children.list);
+    }
+    return users;
+  }
+
+  /**
+   * データのキャッシュを一時キーで読み込んだものに置き換える
+   * 検証エラーで読み込みを止める設定の場合は元のデータに戻す
+   */
+  private swapCacheEntry(asset: AssetConfig, replacementKey: string): boolean {
+    const cache = this.getDataCache(asset.type)!;
+    const previous = cache.get(asset.key);
+    const data = cache.get(replacementKey);
+    cache.remove(replacementKey);
+    cache.remove(asset.key);
+    cache.add(asset.key, data);
+
+    if (this.validateAsset(asset)?.blocked) {
+      cache.add(asset.key, previous);
+      console.warn(`Reload of '${asset.key}' was rejected by validation`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * データアセットのタイプに対応するキャッシュを取得
+   */
+  private getDataCache(type: AssetType): Phaser.Cache.BaseCache | null {
+    const cache = this.scene.cache;
+    switch (type) {
+      case AssetType.AUDIO:
+        return cache.audio;
+      case AssetType.JSON:
+        return cache.json;
+      case AssetType.XML:
+        return cache.xml;
+      case AssetType.TEXT:
+      case AssetType.CSV:
+        return cache.text;
+      case AssetType.HTML:
+        return cache.html;
+      case AssetType.BINARY:
+        return cache.binary;
+      case AssetType.GLSL:
+        return cache.shader;
+      case AssetType.TILEMAP_JSON:
+      case AssetType.TILEMAP_CSV:
+        return cache.tilemap;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 登録時のパスに一致するアセットのキーを探す
+   * ファイル監視などから届く絶対パス・相対パスのどちらにも一致させる
+   */
+  private findKeysByPath(target: string): string[] {
+    const normalize = (path: string) =>
+      path
+        .split(/[?#]/)[0]
+        .replace(/\\/g, "/")
+        .replace(/^\.?\//, "");
+    const normalizedTarget = normalize(target);
+
+    return Array.from(this.assetRegistry.values())
+      .filter((asset) =>
+        [
+          asset.path,
+          asset.atlasPath,
+          asset.dataPath,
+          asset.options?.fontDataURL,
+          ...(this.variants.get(asset.key) ?? []).flatMap((variant) => [
+            variant.path,
+            variant.atlasPath,
+            variant.dataPath,
+          ]),
+        ]
+          .flat()
+          .filter(
+            (path): path is string => typeof path === "string" && path !== ""
+          )
+          .map(normalize)
+          .some(
+            (path) =>
+              normalizedTarget.endsWith(path) || path.endsWith(normalizedTarget)
+          )
+      )
+      .map((asset) => asset.key);
+  }
+
+  /**
+   * 全アセットをクリア
+   */
+  clear(): void {
+    this.scheduler.cancelAll();
+    this.assetRegistry.clear();
+    this.loadedAssets.clear();
+    this.packs.clear();
+    this.referenceCounts.clear();
+    this.ownerReferences.clear();
+    this.variants.clear();
+    this.activeVariants.clear();
+    this.dependencies.clear();
+    this.usage.clear();
+  }
+  /**
+   * 読み込み進捗情報を取得
+   */
+  getLoadProgress(): LoadProgress {
+    const total = this.assetRegistry.size;
+    const loaded = this.loadedAssets.size;
+    return {
+      loaded,
+      total,
+      percentage: total > 0 ? Math.round((loaded / total) * 100) : 0,
+      cacheHits: this.cacheHits,
+      cacheMisses: this.cacheMisses,
+    };
+  }
+
+  /**
+   * 複数のアセットを一括登録
+   */
+  registerAssets(assets: AssetRegistration[]): this {
+    // 実行時データのためキーの型チェックは行わない
+    const manager = this as unknown as AssetManager;
+    for (const asset of assets) {
+      switch (normalizeAssetType(asset.type)) {
         case AssetType.IMAGE:
+          manager.registerImage(asset.key, asset.path as string, asset.options);
+          break;
         case AssetType.SPRITESHEET:
-          estimatedSize = 100; // KB (概算)
+          manager.registerSpritesheet(
+            asset.key,
+            asset.path as string,
+            asset.frameConfig!,
+            asset.options
+          );
           break;
         case AssetType.ATLAS:
-          estimatedSize = 200; // KB (概算)
+          manager.registerAtlas(
+            asset.key,
+            asset.path as string,
+            asset.atlasPath!,
+            asset.options
+          );
           break;
         case AssetType.AUDIO:
-          estimatedSize = 500; // KB (概算)
+          manager.registerAudio(asset.key, asset.path, asset.options);
           break;
         case AssetType.JSON:
+          manager.registerJSON(asset.key, asset.path as string, asset.options);
+          break;
         case AssetType.XML:
-          estimatedSize = 10; // KB (概算)
+          manager.registerXML(asset.key, asset.path as string, asset.options);
+          break;
+        case AssetType.BITMAP_FONT:
+          manager.registerBitmapFont(
+            asset.key,
+            asset.path as string,
+            asset.options
+          );
+          break;
+        case AssetType.WEB_FONT:
+          if (asset.options?.stylesheet) {
+            manager.registerWebFontCSS(
+              asset.key,
+              asset.path as string,
+              asset.options.families ?? [],
+              asset.options
+            );
+          } else {
+            manager.registerWebFont(asset.key, asset.path, asset.options);
+          }
+          break;
+        case AssetType.TILEMAP_JSON:
+          manager.registerTilemapJSON(
+            asset.key,
+            asset.path as string,
+            asset.options
+          );
+          break;
+        case AssetType.TILEMAP_CSV:
+          manager.registerTilemapCSV(
+            asset.key,
+            asset.path as string,
+            asset.options
+          );
+          break;
+        case AssetType.MULTIATLAS:
+          manager.registerMultiAtlas(
+            asset.key,
+            asset.path as string,
+            asset.options
+          );
+          break;
+        case AssetType.ASEPRITE:
+          manager.registerAseprite(
+            asset.key,
+            asset.path as string,
+            asset.atlasPath!,
+            asset.options
+          );
+          break;
+        case AssetType.SVG:
+          manager.registerSVG(asset.key, asset.path as string, asset.options);
+          break;
+        case AssetType.VIDEO:
+          manager.registerVideo(asset.key, asset.path, asset.options);
+          break;
+        case AssetType.GLSL:
+          manager.registerGLSL(asset.key, asset.path as string, asset.options);
+          break;
+        case AssetType.TEXT:
+          manager.registerText(asset.key, asset.path as string, asset.options);
+          break;
+        case AssetType.CSV:
+          manager.registerCSV(asset.key, asset.path as string, asset.options);
+          break;
+        case AssetType.BINARY:
+          manager.registerBinary(
+            asset.key,
+            asset.path as string,
+            asset.options
+          );
+          break;
+        case AssetType.HTML:
+          manager.registerHTML(asset.key, asset.path as string, asset.options);
+          break;
+        case AssetType.AUDIO_SPRITE:
+          manager.registerAudioSprite(
+            asset.key,
+            asset.dataPath!,
+            asset.path,
+            asset.options
+          );
           break;
-        case AssetType.FONT:
-          estimatedSize = 50; // KB (概算)
+        case AssetType.GENERATED_TEXTURE:
+          manager.registerGeneratedTexture(
+            asset.key,
+            asset.options.generator,
+            asset.options.params
+          );
           break;
+        default:
+          console.warn(
+            `Unsupported asset type '${asset.type}' for key '${asset.key}'`
+          );
+          continue;
+      }
+
+      const registered = this.assetRegistry.get(asset.key);
+      if (registered && asset.version) {
+        registered.version = asset.version;
+      }
+      if (registered && asset.variants) {
+        manager.registerVariants(asset.key, asset.variants);
+      }
+    }
+
+    // 依存先が後から登録される場合に備えて全て登録してから設定する
+    for (const asset of assets) {
+      if (asset.dependencies) {
+        manager.registerDependencies(asset.key, asset.dependencies);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * アセットパックを登録
+   * パック内の全アセットを登録し、パック名からキー一覧を引けるようにする
+   */
+  registerPack(name: string, assets: AssetRegistration[]): this {
+    this.registerAssets(assets);
+
+    const keys = this.packs.get(name) ?? [];
+    for (const asset of assets) {
+      if (!keys.includes(asset.key)) {
+        keys.push(asset.key);
+      }
+    }
+    this.packs.set(name, keys);
+    return this;
+  }
+
+  /**
+   * マニフェストに含まれる全パックを登録
+   * 独自形式（packs）と Phaser のパックファイル形式の両方に対応
+   */
+  registerManifest(manifest: AssetManifest | PhaserPackFile): this {
+    if (isAssetManifest(manifest)) {
+      for (const [name, pack] of Object.entries(manifest.packs)) {
+        const section = Array.isArray(pack) ? { assets: pack } : pack;
+        this.registerPack(
+          name,
+          section.assets.map((asset) => ({
+            ...asset,
+            path: resolvePackPath(section.path, asset.path),
+            atlasPath:
+              asset.atlasPath !== undefined
+                ? (resolvePackPath(section.path, asset.atlasPath) as string)
+                : undefined,
+            dataPath:
+              asset.dataPath !== undefined
+                ? (resolvePackPath(section.path, asset.dataPath) as string)
+                : undefined,
+          }))
+        );
+      }
+      return this;
+    }
+
+    for (const [name, section] of Object.entries(manifest)) {
+      if (!section || !Array.isArray((section as PhaserPackSection).files)) {
+        // meta などファイル一覧を持たないセクションは無視
+        continue;
       }
-      sizeByType[asset.type] += estimatedSize;
-      totalEstimatedSize += estimatedSize;
+
+      const assets: AssetRegistration[] = [];
+      for (const file of (section as PhaserPackSection).files) {
+        const asset = convertPhaserPackFile(
+          file,
+          section as PhaserPackSection,
+          name
+        );
+        if (asset) {
+          assets.push(asset);
+        }
+      }
+      this.registerPack(name, assets);
+    }
+    return this;
+  }
+
+  /**
+   * マニフェストファイルを読み込んでパックを登録
+   */
+  async loadManifest(
+    key: AssetKey<R, AssetType.JSON>,
+    path: string
+  ): Promise<void> {
+    if (!this.isAssetLoaded(key)) {
+      this.registerJSON(key, path);
+      await this.loadKeys([key], undefined, { mode: "fail-fast" });
+    }
+
+    const manifest = this.scene.cache.json.get(key);
+    if (!manifest) {
+      throw new Error(`Manifest '${key}' could not be loaded`);
+    }
+
+    this.registerManifest(manifest);
+  }
+
+  /**
+   * パック内の全アセットを読み込み
+   */
+  async loadPack(
+    name: string,
+    onProgress?: (progress: number) => void,
+    options?: LoadOptions
+  ): Promise<LoadResult> {
+    const keys = this.packs.get(name);
+    if (!keys) {
+      throw new Error(`Asset pack '${name}' is not registered`);
+    }
+    return this.completePack(name, this.loadKeys(keys, onProgress, options));
+  }
+
+  /**
+   * アセットをバックグラウンドで先読み
+   * 低優先度で少数ずつ読み込み、優先度の高い読み込みが始まると後回しになる
+   */
+  async prefetch(
+    keys: AssetKey<R>[],
+    options: Omit<LoadOptions, "priority" | "mode"> = {}
+  ): Promise<LoadResult> {
+    return this.loadKeys(keys, undefined, {
+      ...options,
+      mode: "best-effort",
+      priority: LoadPriority.PREFETCH,
+    });
+  }
+
+  /**
+   * パック内の全アセットをバックグラウンドで先読み
+   */
+  async prefetchPack(
+    name: string,
+    options: Omit<LoadOptions, "priority" | "mode"> = {}
+  ): Promise<LoadResult> {
+    const keys = this.packs.get(name);
+    if (!keys) {
+      throw new Error(`Asset pack '${name}' is not registered`);
+    }
+    return this.completePack(
+      name,
+      this.prefetch(keys as AssetKey<R>[], options)
+    );
+  }
+
+  /**
+   * パックの読み込みが決着した時点で packComplete イベントを発行
+   * AssetLoadError で終わった場合もその結果を渡してから投げ直す
+   */
+  private async completePack(
+    name: string,
+    load: Promise<LoadResult>
+  ): Promise<LoadResult> {
+    try {
+      const result = await load;
+      this.events.emit("packComplete", { name, result });
+      return result;
+    } catch (error) {
+      if (error instanceof AssetLoadError) {
+        this.events.emit("packComplete", { name, result: error.result });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * パックの読み込み済み状況を取得
+   */
+  getPackWarmth(name: string): PackWarmth {
+    const keys = this.packs.get(name) ?? [];
+    const pendingKeys = new Set(this.scheduler.getPendingKeys());
+    const loaded = keys.filter((key) => this.isAssetLoaded(key)).length;
+    const pending = keys.filter((key) => pendingKeys.has(key)).length;
+    return {
+      loaded,
+      pending,
+      total: keys.length,
+      ratio: keys.length > 0 ? loaded / keys.length : 1,
+    };
+  }
+
+  /**
+   * パックが登録されているかチェック
+   */
+  hasPack(name: string): boolean {
+    return this.packs.has(name);
+  }
+
+  /**
+   * パックに含まれるアセットキー一覧を取得
+   */
+  getPackKeys(name: string): AssetKey<R>[] {
+    return [...(this.packs.get(name) ?? [])] as AssetKey<R>[];
+  }
+
+  /**
+   * 登録済みパック一覧を取得
+   */
+  getRegisteredPacks(): string[] {
+    return Array.from(this.packs.keys());
+  }
+
+  /**
+   * アセットプリローダー（ゲーム開始前の必須アセット読み込み）
+   */
+  async preloadEssentialAssets(
+    essentialKeys: AssetKey<R>[],
+    onProgress?: (progress: number) => void,
+    options?: LoadOptions
+  ): Promise<LoadResult> {
+    const essentialAssets = essentialKeys
+      .map((key) => this.assetRegistry.get(key))
+      .filter(Boolean) as AssetConfig[];
+
+    if (essentialAssets.length === 0) {
+      throw new Error("No essential assets found");
+    }
+
+    return this.loadAssets(essentialKeys, onProgress, options);
+  }
+
+  /**
+   * レベル別アセット読み込み
+   * レベル名と同名のパックを読み込む（prefetchPack で先読み済みなら即座に完了する）。
+   * キーの一覧を渡す以前の呼び出し方では、そのキーを読み込む
+   */
+  loadLevelAssets(
+    levelName: string,
+    onProgress?: (progress: number) => void,
+    options?: LoadOptions
+  ): Promise<LoadResult>;
+  /** @deprecated レベル名と同名のパックを登録し、キーを渡さずに呼び出す */
+  loadLevelAssets(
+    levelName: string,
+    assetKeys: AssetKey<R>[],
+    onProgress?: (progress: number) => void
+  ): Promise<LoadResult>;
+  async loadLevelAssets(
+    levelName: string,
+    keysOrProgress?: AssetKey<R>[] | ((progress: number) => void),
+    progressOrOptions?: ((progress: number) => void) | LoadOptions
+  ): Promise<LoadResult> {
+    if (Array.isArray(keysOrProgress)) {
+      return this.loadAssets(
+        keysOrProgress,
+        progressOrOptions as ((progress: number) => void) | undefined
+      );
+    }
+    return this.loadPack(
+      levelName,
+      keysOrProgress,
+      progressOrOptions as LoadOptions | undefined
+    );
+  }
+
+  /**
+   * アセットの容量チェック
+   * 読み込み時に記録した転送量と、読み込み済みテクスチャ・音声から推定したメモリ使用量を集計する
+   */
+  getEstimatedSize(): AssetSizeInfo {
+    const sizeByType = Object.fromEntries(
+      Object.values(AssetType).map((type) => [type, 0])
+    ) as Record<AssetType, number>;
+    const assets: AssetSizeDetail[] = [];
+    let totalBytes = 0;
+    let transferredBytes = 0;
+    let textureBytes = 0;
+    let audioBytes = 0;
+
+    for (const asset of this.assetRegistry.values()) {
+      const detail = this.measureAsset(asset);
+      assets.push(detail);
+      sizeByType[asset.type] += toKB(detail.memoryBytes);
+      totalBytes += detail.memoryBytes;
+      transferredBytes += detail.transferredBytes;
+      textureBytes += detail.textureBytes;
+      audioBytes += detail.audioBytes;
+    }
+
+    return {
+      totalSizeKB: toKB(totalBytes),
+      sizeByType,
+      assetCount: this.assetRegistry.size,
+      transferredKB: toKB(transferredBytes),
+      textureKB: toKB(textureBytes),
+      audioKB: toKB(audioBytes),
+      assets,
+      warnings: this.checkSizeBudget(assets, {
+        totalKB: toKB(totalBytes),
+        transferredKB: toKB(transferredBytes),
+        textureKB: toKB(textureBytes),
+        audioKB: toKB(audioBytes),
+      }),
+    };
+  }
+
+  /**
+   * アセット1件のサイズ情報を取得
+   */
+  getAssetSize(key: AssetKey<R>): AssetSizeDetail | null {
+    const asset = this.assetRegistry.get(key);
+    return asset ? this.measureAsset(asset) : null;
+  }
+
+  /**
+   * アセットの使用状況レポートを作成
+   * 登録したが一度も読み込まれていないもの、読み込んだがゲッターで一度も使われていないもの、
+   * サイズが大きいのにほとんど使われていないものをサイズ情報と合わせて返す。
+   * アクセス回数は trackUsage を指定した場合のみ記録される
+   */
+  getUsageReport(options: AssetUsageReportOptions = {}): AssetUsageReport {
+    if (!this.config.trackUsage) {
+      console.warn("Asset usage is not tracked; enable trackUsage in config");
+    }
+    const heavyKB = options.heavyKB ?? 512;
+    const rareAccessCount = options.rareAccessCount ?? 3;
+
+    const assets = Array.from(this.assetRegistry.values()).map(
+      (asset): AssetUsageEntry => {
+        const record = this.usage.get(asset.key);
+        const size = this.measureAsset(asset);
+        return {
+          key: asset.key,
+          type: asset.type,
+          packs: Array.from(this.packs.entries())
+            .filter(([, keys]) => keys.includes(asset.key))
+            .map(([name]) => name),
+          loaded: size.loaded,
+          loadCount: record?.loadCount ?? 0,
+          accessCount: record?.accessCount ?? 0,
+          firstAccessAt: record?.firstAccessAt ?? null,
+          lastAccessAt: record?.lastAccessAt ?? null,
+          scenes: Array.from(record?.scenes ?? []),
+          memoryKB: toKB(
+            Math.max(size.memoryBytes, record?.peakMemoryBytes ?? 0)
+          ),
+          transferredKB: toKB(size.transferredBytes),
+        };
+      }
+    );
+
+    const neverLoaded = assets.filter(
+      (entry) => entry.loadCount === 0 && !entry.loaded
+    );
+    const loadedUnused = assets.filter(
+      (entry) =>
+        (entry.loadCount > 0 || entry.loaded) && entry.accessCount === 0
+    );
+    const heavyRarelyUsed = assets.filter(
+      (entry) =>
+        entry.memoryKB >= heavyKB &&
+        entry.accessCount > 0 &&
+        entry.accessCount <= rareAccessCount
+    );
+    const sumKB = (entries: AssetUsageEntry[]) =>
+      entries.reduce((total, entry) => total + entry.memoryKB, 0);
+
+    return {
+      generatedAt: new Date().toISOString(),
+      heavyKB,
+      rareAccessCount,
+      summary: {
+        registered: assets.length,
+        neverLoaded: neverLoaded.length,
+        loadedUnused: loadedUnused.length,
+        heavyRarelyUsed: heavyRarelyUsed.length,
+        unusedKB: sumKB(loadedUnused),
+        rarelyUsedKB: sumKB(heavyRarelyUsed),
+      },
+      neverLoaded: neverLoaded.map((entry) => entry.key),
+      loadedUnused: loadedUnused
+        .sort((a, b) => b.memoryKB - a.memoryKB)
+        .map((entry) => entry.key),
+      heavyRarelyUsed: heavyRarelyUsed
+        .sort((a, b) => b.memoryKB - a.memoryKB)
+        .map((entry) => entry.key),
+      assets,
+    };
+  }
+
+  /**
+   * 使用状況レポートを JSON 文字列で取得（リリース前のパック整理用）
+   */
+  exportUsageReport(options?: AssetUsageReportOptions): string {
+    return JSON.stringify(this.getUsageReport(options), null, 2);
+  }
+
+  /**
+   * 記録した使用状況を消去
+   */
+  resetUsage(): this {
+    this.usage.clear();
+    return this;
+  }
+
+  /**
+   * アセット1件のサイズを計測
+   * テクスチャは RGBA 4 バイト/ピクセル、デコード済み音声は Float32 のサンプル数から推定する
+   */
+  private measureAsset(asset: AssetConfig): AssetSizeDetail {
+    const loaded = this.isAssetLoaded(asset.key);
+    const detail: AssetSizeDetail = {
+      key: asset.key,
+      type: asset.type,
+      loaded,
+      transferredBytes: this.transferredBytes.get(asset.key) ?? 0,
+      textureBytes: 0,
+      audioBytes: 0,
+      memoryBytes: 0,
+    };
+
+    if (!loaded) {
+      return detail;
+    }
+
+    if (isTextureAsset(asset.type) && this.scene.textures.exists(asset.key)) {
+      const texture = this.scene.textures.get(asset.key);
+      detail.width = texture.source[0]?.width;
+      detail.height = texture.source[0]?.height;
+      // __BASE フレームを除いたフレーム数
+      detail.frameCount = Math.max(1, texture.frameTotal - 1);
+      detail.textureBytes = texture.source.reduce(
+        (bytes, source) => bytes + source.width * source.height * 4,
+        0
+      );
+    }
+
+    if (
+      asset.type === AssetType.AUDIO ||
+      asset.type === AssetType.AUDIO_SPRITE
+    ) {
+      const data = this.scene.cache.audio.get(asset.key);
+      if (isAudioBuffer(data)) {
+        detail.duration = data.duration;
+        detail.channels = data.numberOfChannels;
+        detail.sampleRate = data.sampleRate;
+        detail.audioBytes = Math.round(
+          data.duration * data.sampleRate * data.numberOfChannels * 4
+        );
+      } else {
+        // HTML5 Audio はブラウザがストリーミング再生するため転送量で代用
+        detail.audioBytes = detail.transferredBytes;
+      }
+    }
+
+    // テクスチャ・音声以外のデータはファイルサイズ分をメモリに保持する
+    const decodedBytes = detail.textureBytes + detail.audioBytes;
+    detail.memoryBytes =
+      decodedBytes > 0 ? decodedBytes : detail.transferredBytes;
+    return detail;
+  }
+
+  /**
+   * サイズ予算の超過をチェックし、警告メッセージを返す
+   */
+  private checkSizeBudget(
+    assets: AssetSizeDetail[],
+    totals: Required<Omit<AssetSizeBudget, "perAssetKB">>
+  ): string[] {
+    const budget = this.config.sizeBudget;
+    if (!budget) {
+      return [];
+    }
+
+    const warnings: string[] = [];
+    const check = (label: string, usedKB: number, limitKB?: number) => {
+      if (limitKB !== undefined && usedKB > limitKB) {
+        warnings.push(
+          `${label} ${formatKMGT(usedKB * 1024)}B exceeds budget ${formatKMGT(
+            limitKB * 1024
+          )}B`
+        );
+      }
+    };
+
+    check("Total memory", totals.totalKB, budget.totalKB);
+    check("Transferred size", totals.transferredKB, budget.transferredKB);
+    check("Texture memory", totals.textureKB, budget.textureKB);
+    check("Audio memory", totals.audioKB, budget.audioKB);
+    for (const detail of assets) {
+      check(
+        `Asset '${detail.key}'`,
+        toKB(detail.memoryBytes),
+        budget.perAssetKB
+      );
     }
 
-    return {
-      totalSizeKB: totalEstimatedSize,
-      sizeByType,
-      assetCount: this.assetRegistry.size,
-    };
-  }
+    warnings.forEach((warning) => console.warn(warning));
+    return warnings;
+  }
+
+  /**
+   * アセット1件あたりのメモリ使用量（KB）
+   */
+  private estimateAssetSizeKB(asset: AssetConfig): number {
+    return toKB(this.measureAsset(asset).memoryBytes);
+  }
+}
+
+/**
+ * アセットタイプ列挙
+ */
+export enum AssetType {
+  IMAGE = "image",
+  SPRITESHEET = "spritesheet",
+  ATLAS = "atlas",
+  AUDIO = "audio",
+  JSON = "json",
+  XML = "xml",
+  BITMAP_FONT = "bitmapFont",
+  /**
+   * @deprecated BITMAP_FONT を使用
+   * "font" はマニフェスト・Phaser のパックファイルのどちらでもビットマップフォントとして扱い、
+   * 登録時に BITMAP_FONT に変換する。Web フォントは WEB_FONT（"webFont"）を使う
+   */
+  FONT = "font",
+  WEB_FONT = "webFont",
+  TILEMAP_JSON = "tilemapJSON",
+  TILEMAP_CSV = "tilemapCSV",
+  MULTIATLAS = "multiatlas",
+  ASEPRITE = "aseprite",
+  SVG = "svg",
+  VIDEO = "video",
+  GLSL = "glsl",
+  TEXT = "text",
+  CSV = "csv",
+  BINARY = "binary",
+  HTML = "html",
+  AUDIO_SPRITE = "audioSprite",
+  GENERATED_TEXTURE = "generatedTexture",
+}
+
+/**
+ * テクスチャとして取得できるアセットタイプ
+ */
+export type TextureAssetType =
+  | AssetType.IMAGE
+  | AssetType.SPRITESHEET
+  | AssetType.ATLAS
+  | AssetType.MULTIATLAS
+  | AssetType.ASEPRITE
+  | AssetType.SVG
+  | AssetType.BITMAP_FONT
+  | AssetType.GENERATED_TEXTURE;
+
+/**
+ * レジストリ型の1エントリー（アセットタイプと取得できるデータの型）
+ */
+export interface AssetEntry<T extends AssetType = AssetType, D = unknown> {
+  type: T;
+  data: D;
+}
+
+/**
+ * JSON アセットのエントリー
+ */
+export type JsonAsset<D = unknown> = AssetEntry<AssetType.JSON, D>;
+
+/**
+ * XML アセットのエントリー
+ */
+export type XmlAsset<D = Document> = AssetEntry<AssetType.XML, D>;
+
+/**
+ * アセットレジストリ型の制約
+ *
+ * 使用例:
+ * ```typescript
+ * interface GameAssets {
+ *   player: AssetEntry<AssetType.IMAGE>;
+ *   bgm: AssetEntry<AssetType.AUDIO>;
+ *   levelData: JsonAsset<LevelData>;
+ * }
+ * const assetManager = new AssetManager<GameAssets>(this);
+ * assetManager.registerImage('player', 'assets/player.png');
+ * const level = assetManager.getJSON('levelData'); // LevelData | null
+ * assetManager.getImage('bgm'); // コンパイルエラー
+ * ```
+ */
+export type AssetRegistryMap<R> = { [K in keyof R]: AssetEntry };
+
+/**
+ * レジストリ型を指定しない場合の既定値（任意のキーを受け付ける）
+ */
+export type DefaultAssetRegistryMap = Record<
+  string,
+  AssetEntry<AssetType, any>
+>;
+
+/**
+ * レジストリ型のうち、指定したアセットタイプのキー
+ */
+export type AssetKey<
+  R,
+  T extends AssetType = AssetType
+> = string extends keyof R
+  ? string
+  : {
+      [K in keyof R]: R[K] extends { type: T } ? K : never;
+    }[keyof R] &
+      string;
+
+/**
+ * タイルマップのキャッシュデータ
+ */
+export interface TilemapCacheData<D = unknown> {
+  /** Phaser.Tilemaps.Formats の値 */
+  format: number;
+  data: D;
+}
+
+/**
+ * 動画のキャッシュデータ
+ */
+export interface VideoCacheData {
+  url: string;
+  noAudio?: boolean;
+  crossOrigin?: string;
+}
+
+/**
+ * レジストリ型で宣言されたアセットのデータ型
+ */
+export type AssetData<R, K> = K extends keyof R
+  ? R[K] extends { data: infer D }
+    ? D
+    : unknown
+  : unknown;
+
+/**
+ * アセット設定インターface
+ */
+export interface AssetConfig {
+  key: string;
+  type: AssetType;
+  path: string | string[];
+  frameConfig?: Phaser.Types.Loader.FileTypes.ImageFrameConfig;
+  atlasPath?: string;
+  /** オーディオスプライトのマーカー定義 JSON のパス */
+  dataPath?: string;
+  /** URL に付けるバージョン（コンテンツハッシュなど） */
+  version?: string;
+  /** 選ばれたバリエーションの識別子（読み込み時に設定される） */
+  variant?: string;
+  options?: any;
+}
+
+/**
+ * アセットのバリエーション
+ * 指定しなかったパスは登録時のものが使われる
+ */
+export interface AssetVariant {
+  path: string | string[];
+  atlasPath?: string;
+  dataPath?: string;
+  /** 解像度（@2x なら 2、デフォルト: 1） */
+  resolution?: number;
+  /** ロケール（"ja" や "en-US"）。指定しない場合は全ロケール共通 */
+  locale?: string;
+  /** 品質（qualityTiers のいずれか）。指定しない場合は全品質共通 */
+  quality?: string;
+  /** 登録時のオプションに上書きするオプション */
+  options?: Record<string, unknown>;
+}
+
+/**
+ * 依存関係ツリーのノード
+ */
+export interface AssetDependencyNode {
+  key: string;
+  /** 登録されていない場合は null */
+  type: AssetType | null;
+  loaded: boolean;
+  dependencies: AssetDependencyNode[];
+}
+
+/**
+ * アセットマネージャーのイベント
+ */
+export interface AssetManagerEvents {
+  /** アセットが登録された */
+  registered: AssetEvent;
+  /** ファイルのダウンロードが始まった */
+  fileStart: AssetFileEvent;
+  /** ファイルのダウンロードが進んだ */
+  fileProgress: AssetFileProgressEvent;
+  /** ファイルのダウンロードが完了した */
+  fileLoaded: AssetFileLoadedEvent;
+  /** ファイルの読み込みに失敗した（再試行・ミラーへの切り替えごとに発行される） */
+  fileFailed: AssetFileFailedEvent;
+  /** loadPack・prefetchPack の読み込みが決着した */
+  packComplete: PackCompleteEvent;
+  /** アセットがキャッシュからアンロードされた */
+  evicted: AssetEvictedEvent;
+  /** アセットが読み込み直されて置き換えられた */
+  reloaded: AssetEvent;
+}
+
+/**
+ * アセットのイベント
+ * asset はバリエーションとオリジンを適用した読み込み時の設定
+ */
+export interface AssetEvent {
+  asset: AssetConfig;
+}
+
+/**
+ * ファイルのイベント
+ */
+export interface AssetFileEvent extends AssetEvent {
+  /** 生成テクスチャの場合は空文字 */
+  url: string;
+}
+
+/**
+ * ファイルのダウンロード進捗イベント
+ */
+export interface AssetFileProgressEvent extends AssetFileEvent {
+  bytesLoaded: number;
+  /** サーバーがサイズを返さない場合は -1 */
+  bytesTotal: number;
+  /** 0〜1 */
+  percent: number;
+}
+
+/**
+ * ファイルの読み込み完了イベント
+ */
+export interface AssetFileLoadedEvent extends AssetFileEvent {
+  /** 転送量（バイト）。Web フォントなど計測できない場合は 0 */
+  bytes: number;
+}
+
+/**
+ * ファイルの読み込み失敗イベント
+ */
+export interface AssetFileFailedEvent extends AssetFileEvent {
+  reason: string;
+  /** 読み込んだオリジンの番号（0: baseURL、1以降: ミラー） */
+  attempt: number;
+}
+
+/**
+ * パック読み込み完了イベント
+ */
+export interface PackCompleteEvent {
+  name: string;
+  result: LoadResult;
+}
+
+/**
+ * アンロードの理由
+ * - manual: unloadAsset の呼び出し
+ * - released: 参照がなくなり自動でアンロードされた
+ * - budget: メモリ予算を超えたためアンロードされた
+ * - removed: removeAsset で登録ごと削除された
+ */
+export type AssetEvictionReason = "manual" | "released" | "budget" | "removed";
+
+/**
+ * アセットのアンロードイベント
+ */
+export interface AssetEvictedEvent extends AssetEvent {
+  reason: AssetEvictionReason;
 }
 
 /**
- * アセットタイプ列挙
+ * テクスチャを使っているゲームオブジェクト
  */
-export enum AssetType {
-  IMAGE = "image",
-  SPRITESHEET = "spritesheet",
-  ATLAS = "atlas",
-  AUDIO = "audio",
-  JSON = "json",
-  XML = "xml",
-  FONT = "font",
+interface TextureUser {
+  texture: Phaser.Textures.Texture;
+  frame?: Phaser.Textures.Frame;
+  setTexture(key: string, frame?: string | number): unknown;
 }
 
 /**
- * アセット設定インターface
+ * アセットマネージャー設定
  */
-export interface AssetConfig {
+export interface AssetManagerConfig {
+  /** 永続キャッシュ。指定時はダウンロードしたファイルを保存し、次回以降はネットワークを使わない */
+  persistentCache?: PersistentCacheConfig;
+  /** バリエーション選択に使う解像度（デフォルト: window.devicePixelRatio） */
+  resolution?: number;
+  /** バリエーション選択に使うロケール（デフォルト: navigator.language） */
+  locale?: string;
+  /** バリエーション選択に使う品質（デフォルト: qualityTiers の最高品質） */
+  quality?: string;
+  /** 品質の段階（低い順、デフォルト: ["low", "medium", "high"]） */
+  qualityTiers?: string[];
+  /** 相対パスの前に付けるベース URL（例: "https://cdn.example.com/game/"） */
+  baseURL?: string;
+  /** baseURL で失敗した場合に順に試すミラーのオリジン */
+  mirrors?: string[];
+  /** 全アセットの URL に付けるバージョン（キャッシュ対策） */
+  version?: string;
+  /** アセットごとのバージョン（コンテンツハッシュなど）。version より優先される */
+  assetVersions?: { [key: string]: string };
+  /** バージョンのクエリパラメータ名（デフォルト: "v"） */
+  versionParam?: string;
+  /** Web フォントのフォールバックファミリー（デフォルト: ["sans-serif"]） */
+  fontFallbacks?: string[];
+  /** 参照がなくなったアセットを自動でアンロードするか（デフォルト: true） */
+  autoUnload?: boolean;
+  /** メモリ予算（KB）。指定時は予算を超えるまで未参照アセットをキャッシュに残し、超過分を LRU で解放する */
+  memoryBudgetKB?: number;
+  /** プリフェッチ中の同時ダウンロード数（デフォルト: 2） */
+  prefetchConcurrency?: number;
+  /** プリフェッチで1回に読み込むファイル数（デフォルト: 4） */
+  prefetchChunkSize?: number;
+  /** サイズ予算。getEstimatedSize で超過時に警告を返す */
+  sizeBudget?: AssetSizeBudget;
+  /** ゲッターからのアクセスを記録し、getUsageReport で使用状況を確認できるようにするか（デフォルト: false） */
+  trackUsage?: boolean;
+}
+
+/**
+ * サイズ予算（KB）
+ */
+export interface AssetSizeBudget {
+  totalKB?: number;
+  transferredKB?: number;
+  textureKB?: number;
+  audioKB?: number;
+  perAssetKB?: number;
+}
+
+/**
+ * パックの読み込み済み状況
+ */
+export interface PackWarmth {
+  loaded: number;
+  pending: number;
+  total: number;
+  /** 読み込み済みの割合（0〜1） */
+  ratio: number;
+}
+
+/**
+ * 読み込み済みアセット情報
+ */
+interface LoadedAssetInfo {
   key: string;
   type: AssetType;
-  path: string | string[];
-  frameConfig?: Phaser.Types.Loader.FileTypes.ImageFrameConfig;
-  atlasPath?: string;
-  options?: any;
+  loadedAt: number;
+  lastUsedAt: number;
 }
 
 /**
@@ -553,6 +3816,12 @@ export interface AudioAssetOptions {
 export interface JsonAssetOptions {
   dataKey?: string;
   xhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+  /** 読み込み後に検証するスキーマ。デフォルト値と変換は getJSON の前に適用される */
+  schema?: Schema;
+  /** 読み込み後に呼ばれる型ガード。false を返すと検証エラーになる */
+  validate?: (data: unknown) => boolean;
+  /** 検証エラー時に読み込みを失敗として扱うか（デフォルト: false） */
+  blockOnInvalid?: boolean;
 }
 
 /**
@@ -560,6 +3829,10 @@ export interface JsonAssetOptions {
  */
 export interface XmlAssetOptions {
   xhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+  /** 読み込み後に呼ばれる型ガード。false を返すと検証エラーになる */
+  validate?: (data: Document) => boolean;
+  /** 検証エラー時に読み込みを失敗として扱うか（デフォルト: false） */
+  blockOnInvalid?: boolean;
 }
 
 /**
@@ -571,6 +3844,119 @@ export interface FontAssetOptions {
   fontDataXhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
 }
 
+/**
+ * Web フォントアセットオプション
+ */
+export interface WebFontOptions {
+  /** CSS のフォントファミリー名（デフォルト: キー） */
+  family?: string;
+  /** フォント形式（デフォルト: 拡張子から判定） */
+  format?: string;
+  descriptors?: FontFaceDescriptors;
+  /** getFontFamily で後ろに付けるフォールバック（デフォルト: 設定の fontFallbacks） */
+  fallbacks?: string[];
+  /** 使用可能になるまで待つ最大時間（ミリ秒、デフォルト: 10000） */
+  timeout?: number;
+}
+
+/**
+ * CSS で定義された Web フォントの登録情報
+ */
+interface WebFontStylesheetOptions {
+  stylesheet?: boolean;
+  families?: string[];
+}
+
+/**
+ * 読み込み済みの Web フォント
+ */
+interface WebFontHandle {
+  faces: FontFace[];
+  link?: HTMLLinkElement;
+}
+
+/**
+ * テキスト系データ（タイルマップ・テキスト・CSV・HTML）アセットオプション
+ */
+export interface DataAssetOptions {
+  xhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+}
+
+/**
+ * マルチアトラスアセットオプション
+ */
+export interface MultiAtlasAssetOptions {
+  /** 画像ファイルの読み込み元パス */
+  path?: string;
+  baseURL?: string;
+  xhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+}
+
+/**
+ * Aseprite アセットオプション
+ */
+export interface AsepriteAssetOptions {
+  textureXhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+  atlasXhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+}
+
+/**
+ * SVG アセットオプション
+ */
+export interface SvgAssetOptions {
+  width?: number;
+  height?: number;
+  scale?: number;
+  xhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+}
+
+/**
+ * 動画アセットオプション
+ */
+export interface VideoAssetOptions {
+  noAudio?: boolean;
+}
+
+/**
+ * シェーダーアセットオプション
+ */
+export interface ShaderAssetOptions {
+  shaderType?: "fragment" | "vertex";
+  xhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+}
+
+/**
+ * バイナリアセットオプション
+ */
+export interface BinaryAssetOptions {
+  /** 読み込んだ ArrayBuffer を変換する型（例: Uint8Array） */
+  dataType?: any;
+  xhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+}
+
+/**
+ * オーディオスプライトアセットオプション
+ */
+export interface AudioSpriteAssetOptions {
+  instances?: number;
+  audioXhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+  jsonXhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+}
+
+/**
+ * オーディオスプライトのマーカー定義
+ */
+export interface AudioSpriteData {
+  resources?: string[];
+  spritemap: {
+    [marker: string]: {
+      start: number;
+      end: number;
+      loop?: boolean;
+    };
+  };
+}
+
 /**
  * 読み込み進捗情報
  */
@@ -578,6 +3964,10 @@ export interface LoadProgress {
   loaded: number;
   total: number;
   percentage: number;
+  /** 永続キャッシュから取得できたファイル数 */
+  cacheHits: number;
+  /** 永続キャッシュになくネットワークから取得したファイル数 */
+  cacheMisses: number;
 }
 
 /**
@@ -589,14 +3979,690 @@ export interface AssetRegistration {
   path: string | string[];
   frameConfig?: Phaser.Types.Loader.FileTypes.ImageFrameConfig;
   atlasPath?: string;
+  dataPath?: string;
+  /** URL に付けるバージョン（コンテンツハッシュなど） */
+  version?: string;
+  /** 解像度・ロケール・品質別のバリエーション */
+  variants?: AssetVariant[];
+  /** 先に読み込む必要のあるアセットのキー */
+  dependencies?: string[];
   options?: any;
 }
 
+/**
+ * 使用状況レポートの設定
+ */
+export interface AssetUsageReportOptions {
+  /** サイズが大きいとみなすメモリ使用量（KB、デフォルト: 512） */
+  heavyKB?: number;
+  /** ほとんど使われていないとみなすアクセス回数の上限（デフォルト: 3） */
+  rareAccessCount?: number;
+}
+
+/**
+ * アセットの使用状況レポート
+ */
+export interface AssetUsageReport {
+  /** 作成日時（ISO 8601） */
+  generatedAt: string;
+  heavyKB: number;
+  rareAccessCount: number;
+  summary: {
+    registered: number;
+    neverLoaded: number;
+    loadedUnused: number;
+    heavyRarelyUsed: number;
+    /** 読み込んだが使われていないアセットのメモリ使用量の合計 */
+    unusedKB: number;
+    /** サイズが大きいのにほとんど使われていないアセットのメモリ使用量の合計 */
+    rarelyUsedKB: number;
+  };
+  /** 登録したが一度も読み込まれていないアセットのキー */
+  neverLoaded: string[];
+  /** 読み込んだがゲッターで一度も使われていないアセットのキー（サイズの大きい順） */
+  loadedUnused: string[];
+  /** サイズが大きいのにほとんど使われていないアセットのキー（サイズの大きい順） */
+  heavyRarelyUsed: string[];
+  assets: AssetUsageEntry[];
+}
+
+/**
+ * アセット1件の使用状況
+ */
+export interface AssetUsageEntry {
+  key: string;
+  type: AssetType;
+  /** アセットを含むパック */
+  packs: string[];
+  loaded: boolean;
+  /** 読み込まれた回数（アンロード後の再読み込みを含む） */
+  loadCount: number;
+  /** ゲッターで取得された回数 */
+  accessCount: number;
+  firstAccessAt: number | null;
+  lastAccessAt: number | null;
+  /** アクセス時に動作していたシーンのキー */
+  scenes: string[];
+  /** メモリ使用量（アンロード済みの場合は読み込み時の値） */
+  memoryKB: number;
+  transferredKB: number;
+}
+
+/**
+ * アセットの使用状況の記録
+ */
+interface AssetUsageRecord {
+  loadCount: number;
+  accessCount: number;
+  firstAccessAt: number | null;
+  lastAccessAt: number | null;
+  scenes: Set<string>;
+  peakMemoryBytes: number;
+}
+
 /**
  * アセットサイズ情報
  */
 export interface AssetSizeInfo {
+  /** 読み込み済みアセットの推定メモリ使用量 */
   totalSizeKB: number;
   sizeByType: Record<AssetType, number>;
   assetCount: number;
+  /** 読み込み時の転送量 */
+  transferredKB: number;
+  /** テクスチャの推定 GPU メモリ */
+  textureKB: number;
+  /** デコード済み音声の推定メモリ */
+  audioKB: number;
+  assets: AssetSizeDetail[];
+  /** サイズ予算を超過している項目 */
+  warnings: string[];
+}
+
+/**
+ * アセット1件のサイズ情報（バイト）
+ */
+export interface AssetSizeDetail {
+  key: string;
+  type: AssetType;
+  loaded: boolean;
+  transferredBytes: number;
+  textureBytes: number;
+  audioBytes: number;
+  memoryBytes: number;
+  width?: number;
+  height?: number;
+  frameCount?: number;
+  duration?: number;
+  channels?: number;
+  sampleRate?: number;
+}
+
+/**
+ * アセットマニフェスト（独自形式）
+ *
+ * 例:
+ * ```json
+ * {
+ *   "packs": {
+ *     "stage1": {
+ *       "path": "assets/stage1/",
+ *       "assets": [{ "key": "bg", "type": "image", "path": "bg.png" }]
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export interface AssetManifest {
+  packs: { [name: string]: AssetPackSection | AssetRegistration[] };
+}
+
+/**
+ * アセットパックセクション（独自形式）
+ */
+export interface AssetPackSection {
+  path?: string;
+  assets: AssetRegistration[];
+}
+
+/**
+ * Phaser のパックファイル形式
+ */
+export interface PhaserPackFile {
+  [section: string]: PhaserPackSection | unknown;
+}
+
+/**
+ * Phaser のパックファイルのセクション
+ */
+export interface PhaserPackSection {
+  files: PhaserPackFileEntry[];
+  baseURL?: string;
+  path?: string;
+  prefix?: string;
+  defaultType?: string;
+}
+
+/**
+ * Phaser のパックファイル内のファイル定義
+ */
+export interface PhaserPackFileEntry {
+  type?: string;
+  key: string;
+  url?: string | string[];
+  textureURL?: string;
+  atlasURL?: string;
+  fontDataURL?: string;
+  jsonURL?: string;
+  audioURL?: string | string[];
+  normalMap?: string;
+  frameConfig?: Phaser.Types.Loader.FileTypes.ImageFrameConfig;
+  svgConfig?: { width?: number; height?: number; scale?: number };
+  dataKey?: string;
+  dataType?: any;
+  shaderType?: "fragment" | "vertex";
+  format?: string;
+  descriptors?: FontFaceDescriptors;
+  noAudio?: boolean;
+  path?: string;
+  baseURL?: string;
+  config?: { instances?: number };
+  audioConfig?: { instances?: number };
+  xhrSettings?: Phaser.Types.Loader.XHRSettingsObject;
+}
+
+/**
+ * テクスチャとして読み込まれるアセットタイプかチェック
+ */
+function isTextureAsset(type: AssetType): boolean {
+  return [
+    AssetType.IMAGE,
+    AssetType.SPRITESHEET,
+    AssetType.ATLAS,
+    AssetType.MULTIATLAS,
+    AssetType.ASEPRITE,
+    AssetType.SVG,
+    AssetType.BITMAP_FONT,
+    AssetType.GENERATED_TEXTURE,
+  ].includes(type);
+}
+
+/**
+ * CSV テキストを行・列の配列に変換
+ * ダブルクォートで囲まれたフィールド内のカンマ・改行・"" に対応する
+ */
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * バイト数を KB に変換（小数第1位まで）
+ */
+function toKB(bytes: number): number {
+  return Math.round((bytes / 1024) * 10) / 10;
+}
+
+/**
+ * ファイルの転送量を取得
+ * Content-Length が得られない場合はレスポンス本体の大きさで代用する
+ */
+function measureTransferredBytes(file: Phaser.Loader.File): number {
+  if (file.bytesTotal > 0) {
+    return file.bytesTotal;
+  }
+
+  const response = file.xhrLoader?.response;
+  if (response instanceof ArrayBuffer) {
+    return response.byteLength;
+  }
+  if (typeof Blob !== "undefined" && response instanceof Blob) {
+    return response.size;
+  }
+  if (typeof response === "string") {
+    return new TextEncoder().encode(response).length;
+  }
+  return 0;
+}
+
+/**
+ * デコード済みの AudioBuffer かチェック
+ */
+function isAudioBuffer(data: unknown): data is AudioBuffer {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as AudioBuffer).sampleRate === "number" &&
+    typeof (data as AudioBuffer).numberOfChannels === "number"
+  );
+}
+
+/**
+ * ローダーのエラー内容を説明文に変換
+ */
+function describeLoadError(file: Phaser.Loader.File): string {
+  const xhr = file.xhrLoader;
+  if (xhr && xhr.status >= 400) {
+    return `HTTP ${xhr.status} (${file.src})`;
+  }
+  return `Failed to load ${file.type} file (${file.src})`;
+}
+
+/**
+ * バリエーションの識別子を作成
+ */
+function describeVariant(variant: AssetVariant): string {
+  return [
+    variant.locale ?? "",
+    `${variant.resolution ?? 1}x`,
+    variant.quality ?? "",
+  ].join(":");
+}
+
+/**
+ * 読み込み直して置き換えられるアセットタイプ
+ */
+const RELOADABLE_ASSET_TYPES: AssetType[] = [
+  AssetType.AUDIO,
+  AssetType.IMAGE,
+  AssetType.SPRITESHEET,
+  AssetType.ATLAS,
+  AssetType.MULTIATLAS,
+  AssetType.SVG,
+  AssetType.JSON,
+  AssetType.XML,
+  AssetType.TEXT,
+  AssetType.CSV,
+  AssetType.HTML,
+  AssetType.BINARY,
+  AssetType.GLSL,
+  AssetType.TILEMAP_JSON,
+  AssetType.TILEMAP_CSV,
+];
+
+/**
+ * 再生中に URL を参照するメディアアセットかチェック
+ */
+function isMediaAsset(type: AssetType): boolean {
+  return [AssetType.AUDIO, AssetType.AUDIO_SPRITE, AssetType.VIDEO].includes(
+    type
+  );
+}
+
+/**
+ * URL の拡張子からフォント形式を判定
+ */
+function guessFontFormat(url: string): string {
+  const extension = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "woff2":
+      return "woff2";
+    case "woff":
+      return "woff";
+    case "otf":
+      return "opentype";
+    default:
+      return "truetype";
+  }
+}
+
+/**
+ * スキーム付き・プロトコル相対の URL かチェック
+ */
+function isAbsoluteURL(url: string): boolean {
+  return /^([a-z][a-z\d+.-]*:|\/\/)/i.test(url);
+}
+
+/**
+ * 相対パスにオリジンを付け、バージョンのクエリを追加した URL を作成
+ * data: や blob: などの絶対 URL はそのまま返す
+ */
+function resolveAssetURL(
+  url: string,
+  origin: string,
+  version?: string,
+  versionParam: string = "v"
+): string {
+  if (isAbsoluteURL(url)) {
+    return /^(data|blob):/i.test(url) || !version
+      ? url
+      : appendQuery(url, versionParam, version);
+  }
+  const resolved = origin
+    ? `${origin.replace(/\/+$/, "")}/${url.replace(/^\.?\//, "")}`
+    : url;
+  return version ? appendQuery(resolved, versionParam, version) : resolved;
+}
+
+/**
+ * URL にクエリパラメータを追加
+ */
+function appendQuery(url: string, name: string, value: string): string {
+  const [base, hash] = url.split("#");
+  const separator = base.includes("?") ? "&" : "?";
+  const query = `${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
+  return `${base}${separator}${query}${hash !== undefined ? `#${hash}` : ""}`;
+}
+
+/**
+ * スタイルシートを読み込んで document に追加
+ */
+function loadStylesheet(url: string): Promise<HTMLLinkElement> {
+  return new Promise((resolve, reject) => {
+    const link = document.createElement("link");
+    link.rel = "stylesheet";
+    link.href = url;
+    link.onload = () => resolve(link);
+    link.onerror = () => {
+      link.remove();
+      reject(new Error(`Failed to load stylesheet (${url})`));
+    };
+    document.head.appendChild(link);
+  });
+}
+
+/**
+ * CSS で定義されたフォントファミリーが使えるようになるまで待つ
+ */
+async function waitForFontFamily(family: string): Promise<FontFace[]> {
+  const faces = await document.fonts.load(`16px "${family}"`);
+  if (faces.length === 0) {
+    throw new Error(`Font family '${family}' is not defined by the stylesheet`);
+  }
+  return faces;
+}
+
+/**
+ * 指定時間内に完了しない Promise をエラーにする
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeout: number,
+  message: string
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), timeout);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * 非推奨のアセットタイプを現在のタイプに変換
+ * FONT（"font"）は BITMAP_FONT として扱う
+ */
+function normalizeAssetType(type: string): AssetType {
+  return type === AssetType.FONT ? AssetType.BITMAP_FONT : (type as AssetType);
+}
+
+/**
+ * 独自形式のマニフェストかチェック
+ */
+function isAssetManifest(
+  manifest: AssetManifest | PhaserPackFile
+): manifest is AssetManifest {
+  return (
+    typeof manifest.packs === "object" &&
+    manifest.packs !== null &&
+    !Array.isArray((manifest.packs as PhaserPackSection).files)
+  );
+}
+
+/**
+ * パックの基準パスとアセットのパスを結合
+ * 絶対URL・ルート相対パス・data URI はそのまま返す
+ */
+function resolvePackPath(
+  basePath: string | undefined,
+  path: string | string[]
+): string | string[] {
+  if (Array.isArray(path)) {
+    return path.map((p) => resolvePackPath(basePath, p) as string);
+  }
+  if (!basePath || /^([a-z][a-z0-9+.-]*:|\/)/i.test(path)) {
+    return path;
+  }
+  return basePath.endsWith("/") ? basePath + path : `${basePath}/${path}`;
+}
+
+/**
+ * Phaser のパックファイル定義をアセット登録情報に変換
+ * 変換できない場合（未対応のタイプ・必須の URL がない）は警告を出して null を返す
+ */
+function convertPhaserPackFile(
+  file: PhaserPackFileEntry,
+  section: PhaserPackSection,
+  packName: string
+): AssetRegistration | null {
+  const basePath = [section.baseURL, section.path]
+    .filter(Boolean)
+    .reduce<string | undefined>(
+      (base, part) => resolvePackPath(base, part as string) as string,
+      undefined
+    );
+  const key = (section.prefix ?? "") + file.key;
+  const type = file.type ?? section.defaultType;
+  // URL を省略した場合は Phaser と同様に「キー.拡張子」にする
+  const url = (value: string | string[] | undefined, extension: string) =>
+    resolvePackPath(basePath, value ?? `${file.key}.${extension}`);
+  // 音声・動画は拡張子を決められないため URL が必須
+  const missingURL = (field: string): null => {
+    console.warn(
+      `Pack file '${file.key}' (${type}) in pack '${packName}' has no ${field}`
+    );
+    return null;
+  };
+
+  // "font" はマニフェストと同じくビットマップフォントとして扱う（Web フォントは "webFont"）
+  const packType: string | undefined = type && normalizeAssetType(type);
+  switch (packType) {
+    case "image":
+      return {
+        key,
+        type: AssetType.IMAGE,
+        path: url(file.url, "png") as string,
+        options: {
+          normalMap: file.normalMap,
+          xhrSettings: file.xhrSettings,
+        },
+      };
+    case "spritesheet":
+      return {
+        key,
+        type: AssetType.SPRITESHEET,
+        path: url(file.url, "png") as string,
+        frameConfig: file.frameConfig,
+        options: { normalMap: file.normalMap, xhrSettings: file.xhrSettings },
+      };
+    case "atlas":
+      return {
+        key,
+        type: AssetType.ATLAS,
+        path: url(file.textureURL, "png") as string,
+        atlasPath: url(file.atlasURL, "json") as string,
+        options: { normalMap: file.normalMap, xhrSettings: file.xhrSettings },
+      };
+    case "audio":
+      if (file.url === undefined) {
+        return missingURL("url");
+      }
+      return {
+        key,
+        type: AssetType.AUDIO,
+        path: resolvePackPath(basePath, file.url),
+        options: {
+          instances: file.config?.instances,
+          xhrSettings: file.xhrSettings,
+        },
+      };
+    case "json":
+      return {
+        key,
+        type: AssetType.JSON,
+        path: url(file.url, "json") as string,
+        options: { dataKey: file.dataKey, xhrSettings: file.xhrSettings },
+      };
+    case "xml":
+      return {
+        key,
+        type: AssetType.XML,
+        path: url(file.url, "xml") as string,
+        options: { xhrSettings: file.xhrSettings },
+      };
+    case "bitmapFont":
+      return {
+        key,
+        type: AssetType.BITMAP_FONT,
+        path: url(file.textureURL, "png") as string,
+        options: { fontDataURL: url(file.fontDataURL, "xml") as string },
+      };
+    case "tilemapTiledJSON":
+      return {
+        key,
+        type: AssetType.TILEMAP_JSON,
+        path: url(file.url, "json") as string,
+        options: { xhrSettings: file.xhrSettings },
+      };
+    case "tilemapCSV":
+      return {
+        key,
+        type: AssetType.TILEMAP_CSV,
+        path: url(file.url, "csv") as string,
+        options: { xhrSettings: file.xhrSettings },
+      };
+    case "multiatlas":
+      return {
+        key,
+        type: AssetType.MULTIATLAS,
+        path: url(file.url ?? file.atlasURL, "json") as string,
+        options: {
+          path:
+            file.path !== undefined
+              ? resolvePackPath(basePath, file.path)
+              : basePath,
+          baseURL: file.baseURL,
+          xhrSettings: file.xhrSettings,
+        },
+      };
+    case "aseprite":
+      return {
+        key,
+        type: AssetType.ASEPRITE,
+        path: url(file.textureURL, "png") as string,
+        atlasPath: url(file.atlasURL, "json") as string,
+      };
+    case "svg":
+      return {
+        key,
+        type: AssetType.SVG,
+        path: url(file.url, "svg") as string,
+        options: { ...file.svgConfig, xhrSettings: file.xhrSettings },
+      };
+    case "video":
+      if (file.url === undefined) {
+        return missingURL("url");
+      }
+      return {
+        key,
+        type: AssetType.VIDEO,
+        path: resolvePackPath(basePath, file.url),
+        options: { noAudio: file.noAudio },
+      };
+    case "glsl":
+      return {
+        key,
+        type: AssetType.GLSL,
+        path: url(file.url, "glsl") as string,
+        options: { shaderType: file.shaderType, xhrSettings: file.xhrSettings },
+      };
+    case "text":
+      return {
+        key,
+        type: AssetType.TEXT,
+        path: url(file.url, "txt") as string,
+        options: { xhrSettings: file.xhrSettings },
+      };
+    case "binary":
+      return {
+        key,
+        type: AssetType.BINARY,
+        path: url(file.url, "bin") as string,
+        options: { dataType: file.dataType, xhrSettings: file.xhrSettings },
+      };
+    case "html":
+      return {
+        key,
+        type: AssetType.HTML,
+        path: url(file.url, "html") as string,
+        options: { xhrSettings: file.xhrSettings },
+      };
+    case "webFont":
+      return {
+        key,
+        type: AssetType.WEB_FONT,
+        path: url(file.url, "ttf") as string,
+        options: { format: file.format, descriptors: file.descriptors },
+      };
+    case "audioSprite":
+      if (file.audioURL === undefined) {
+        return missingURL("audioURL");
+      }
+      return {
+        key,
+        type: AssetType.AUDIO_SPRITE,
+        path: resolvePackPath(basePath, file.audioURL),
+        dataPath: url(file.jsonURL, "json") as string,
+        options: { instances: file.audioConfig?.instances },
+      };
+    default:
+      console.warn(
+        `Unsupported pack file type '${type}' for key '${file.key}' in pack '${packName}'`
+      );
+      return null;
+  }
 }
@@ -0,0 +1,93 @@
+/**
+ * WebSocket でリロード通知を受け取るソース
+ * 開発サーバーのファイル監視などから送られたメッセージを AssetManager のリロードにつなぐ。
+ * メッセージはアセットキーまたはパスの文字列か、{ key } / { path } / { keys } / { paths } の JSON
+ *
+ * 使用例:
+ * ```typescript
+ * // 開発ビルドのみ有効にする
+ * if (DEBUG) {
+ *   assetManager.addReloadSource(new WebSocketReloadSource('ws://localhost:8081'));
+ * }
+ *
+ * // 手動でリロードする場合
+ * await assetManager.reloadAsset('enemies');
+ * ```
+ */
+export class WebSocketReloadSource implements HotReloadSource {
+  private url: string;
+  private reconnectDelay: number;
+
+  constructor(url: string, reconnectDelay: number = 2000) {
+    this.url = url;
+    this.reconnectDelay = reconnectDelay;
+  }
+
+  connect(reload: (target: string) => void): () => void {
+    let socket: WebSocket | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const open = () => {
+      socket = new WebSocket(this.url);
+      socket.onmessage = (event) => {
+        parseReloadMessage(String(event.data)).forEach(reload);
+      };
+      // 開発サーバーの再起動に備えて再接続する
+      socket.onclose = () => {
+        if (!closed) {
+          timer = setTimeout(open, this.reconnectDelay);
+        }
+      };
+    };
+    open();
+
+    return () => {
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      socket?.close();
+    };
+  }
+}
+
+/**
+ * リロード通知のメッセージからアセットキー・パスの一覧を取得
+ */
+function parseReloadMessage(message: string): string[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(message);
+  } catch {
+    return [message.trim()].filter(Boolean);
+  }
+
+  if (typeof data === "string") {
+    return [data];
+  }
+  if (typeof data !== "object" || data === null) {
+    return [];
+  }
+  const { key, path, keys, paths } = data as {
+    key?: string;
+    path?: string;
+    keys?: string[];
+    paths?: string[];
+  };
+  return [key, path, ...(keys ?? []), ...(paths ?? [])].filter(
+    (target): target is string => typeof target === "string"
+  );
+}
+
+/**
+ * リロードのきっかけを通知するソース
+ * ファイル監視・WebSocket・エディター連携などを差し替えられるようにする
+ */
+export interface HotReloadSource {
+  /**
+   * 通知の受信を開始する
+   * reload にはアセットキーまたは登録時のパスを渡す。戻り値は受信を停止する関数
+   */
+  connect(reload: (target: string) => void): () => void;
+}
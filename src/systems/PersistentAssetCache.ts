@@ -0,0 +1,404 @@
+/**
+ * 永続アセットキャッシュ
+ * 一度ダウンロードしたファイルをストレージに保存し、次回以降はネットワークを使わずに
+ * Blob URL として提供する。保存先は AssetCacheStorage で差し替えられる
+ *
+ * 使用例:
+ * ```typescript
+ * const assetManager = new AssetManager(this, {
+ *   version: '1.4.0',
+ *   persistentCache: {
+ *     storage: new IndexedDBAssetCacheStorage(),
+ *     maxSizeKB: 200 * 1024,
+ *   },
+ * });
+ *
+ * // テストではメモリ上のストレージを使う
+ * const testManager = new AssetManager(scene, {
+ *   persistentCache: { storage: new MemoryAssetCacheStorage() },
+ * });
+ * ```
+ */
+export class PersistentAssetCache {
+  private storage: AssetCacheStorage;
+  private maxSizeKB?: number;
+
+  constructor(storage: AssetCacheStorage, maxSizeKB?: number) {
+    this.storage = storage;
+    this.maxSizeKB = maxSizeKB;
+  }
+
+  /**
+   * ファイルを取得
+   * 保存済みでソースとバージョンが一致すればストレージから、そうでなければネットワークから取得して保存する。
+   * ネットワークからの取得に失敗した場合は元の URL をそのまま返し、通常の読み込みに任せる
+   */
+  async fetch(
+    id: string,
+    source: string,
+    url: string,
+    version: string = ""
+  ): Promise<CachedFileResult> {
+    const entry = await this.readEntry(id);
+
+    if (entry && entry.source === source && entry.version === version) {
+      await this.writeEntry({ ...entry, lastUsedAt: Date.now() });
+      return { url: URL.createObjectURL(entry.data), hit: true };
+    }
+
+    // ソースやバージョンが変わったエントリーは無効化する
+    if (entry) {
+      await this.deleteEntry(id);
+    }
+
+    let data: Blob;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        return { url, hit: false };
+      }
+      data = await response.blob();
+    } catch {
+      return { url, hit: false };
+    }
+
+    const now = Date.now();
+    await this.store({
+      id,
+      source,
+      version,
+      size: data.size,
+      storedAt: now,
+      lastUsedAt: now,
+      data,
+    });
+    return { url: URL.createObjectURL(data), hit: false };
+  }
+
+  /**
+   * 保存済みファイルの合計サイズ（KB）を取得
+   */
+  async getUsageKB(): Promise<number> {
+    const entries = await this.storage.list();
+    const bytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    return Math.round((bytes / 1024) * 100) / 100;
+  }
+
+  /**
+   * 保存済みファイルを全て削除
+   */
+  async clear(): Promise<void> {
+    const entries = await this.storage.list();
+    await Promise.all(entries.map((entry) => this.storage.delete(entry.id)));
+  }
+
+  /**
+   * エントリーを保存し、上限を超えた分を最終使用日時の古い順に削除
+   * 上限より大きいファイルは保存しない
+   */
+  private async store(entry: CachedAssetEntry): Promise<void> {
+    const maxBytes =
+      this.maxSizeKB !== undefined ? this.maxSizeKB * 1024 : Infinity;
+    if (entry.size > maxBytes) {
+      return;
+    }
+
+    await this.writeEntry(entry);
+    if (maxBytes === Infinity) {
+      return;
+    }
+
+    const entries = (await this.storage.list()).sort(
+      (a, b) => a.lastUsedAt - b.lastUsedAt
+    );
+    let total = entries.reduce((sum, info) => sum + info.size, 0);
+    for (const info of entries) {
+      if (total <= maxBytes) {
+        break;
+      }
+      if (info.id === entry.id) {
+        continue;
+      }
+      await this.deleteEntry(info.id);
+      total -= info.size;
+    }
+  }
+
+  /**
+   * ストレージのエラーで読み込み自体が止まらないよう、失敗は警告にとどめる
+   */
+  private async readEntry(id: string): Promise<CachedAssetEntry | undefined> {
+    try {
+      return await this.storage.get(id);
+    } catch (error) {
+      console.warn(`Failed to read cached asset '${id}':`, error);
+      return undefined;
+    }
+  }
+
+  private async writeEntry(entry: CachedAssetEntry): Promise<void> {
+    try {
+      await this.storage.put(entry);
+    } catch (error) {
+      console.warn(`Failed to store cached asset '${entry.id}':`, error);
+    }
+  }
+
+  private async deleteEntry(id: string): Promise<void> {
+    try {
+      await this.storage.delete(id);
+    } catch (error) {
+      console.warn(`Failed to delete cached asset '${id}':`, error);
+    }
+  }
+}
+
+/**
+ * メモリ上のストレージ
+ * ページを再読み込みすると消えるため、主にテストで使う
+ */
+export class MemoryAssetCacheStorage implements AssetCacheStorage {
+  private entries: Map<string, CachedAssetEntry> = new Map();
+
+  async get(id: string): Promise<CachedAssetEntry | undefined> {
+    return this.entries.get(id);
+  }
+
+  async put(entry: CachedAssetEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  async list(): Promise<CachedAssetInfo[]> {
+    return Array.from(this.entries.values()).map(toInfo);
+  }
+}
+
+/**
+ * IndexedDB を使うストレージ
+ */
+export class IndexedDBAssetCacheStorage implements AssetCacheStorage {
+  private databaseName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName: string = "phaser-asset-cache") {
+    this.databaseName = databaseName;
+  }
+
+  async get(id: string): Promise<CachedAssetEntry | undefined> {
+    return this.request("readonly", (store) => store.get(id));
+  }
+
+  async put(entry: CachedAssetEntry): Promise<void> {
+    await this.request("readwrite", (store) => store.put(entry));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request("readwrite", (store) => store.delete(id));
+  }
+
+  async list(): Promise<CachedAssetInfo[]> {
+    const entries: CachedAssetEntry[] = await this.request(
+      "readonly",
+      (store) => store.getAll()
+    );
+    return entries.map(toInfo);
+  }
+
+  /**
+   * オブジェクトストアに対するリクエストを実行
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(OBJECT_STORE_NAME, mode);
+      const request = run(transaction.objectStore(OBJECT_STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * データベースを開く（初回のみ）
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(OBJECT_STORE_NAME, {
+            keyPath: "id",
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.database = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.database;
+  }
+}
+
+/**
+ * Cache Storage を使うストレージ
+ * Service Worker からも同じキャッシュを参照できる。メタデータはレスポンスヘッダーに保存する
+ */
+export class CacheStorageAssetCacheStorage implements AssetCacheStorage {
+  private cacheName: string;
+
+  constructor(cacheName: string = "phaser-asset-cache") {
+    this.cacheName = cacheName;
+  }
+
+  async get(id: string): Promise<CachedAssetEntry | undefined> {
+    const cache = await caches.open(this.cacheName);
+    const response = await cache.match(toCacheRequestURL(id));
+    if (!response) {
+      return undefined;
+    }
+    return {
+      ...readHeaders(id, response.headers),
+      data: await response.blob(),
+    };
+  }
+
+  async put(entry: CachedAssetEntry): Promise<void> {
+    const cache = await caches.open(this.cacheName);
+    await cache.put(
+      toCacheRequestURL(entry.id),
+      new Response(entry.data, {
+        headers: {
+          "Content-Type": entry.data.type,
+          "X-Asset-Source": encodeURIComponent(entry.source),
+          "X-Asset-Version": encodeURIComponent(entry.version),
+          "X-Asset-Size": String(entry.size),
+          "X-Asset-Stored-At": String(entry.storedAt),
+          "X-Asset-Last-Used-At": String(entry.lastUsedAt),
+        },
+      })
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    const cache = await caches.open(this.cacheName);
+    await cache.delete(toCacheRequestURL(id));
+  }
+
+  async list(): Promise<CachedAssetInfo[]> {
+    const cache = await caches.open(this.cacheName);
+    const requests = await cache.keys();
+    const infos: CachedAssetInfo[] = [];
+    for (const request of requests) {
+      const response = await cache.match(request);
+      const id = fromCacheRequestURL(request.url);
+      if (response && id !== null) {
+        infos.push(readHeaders(id, response.headers));
+      }
+    }
+    return infos;
+  }
+}
+
+const OBJECT_STORE_NAME = "files";
+const CACHE_REQUEST_PREFIX = "/__asset-cache__/";
+
+/**
+ * エントリーからデータを除いたメタデータを取得
+ */
+function toInfo(entry: CachedAssetEntry): CachedAssetInfo {
+  const { data, ...info } = entry;
+  return info;
+}
+
+/**
+ * Cache Storage のキーに使う URL を作成
+ */
+function toCacheRequestURL(id: string): string {
+  return `${CACHE_REQUEST_PREFIX}${encodeURIComponent(id)}`;
+}
+
+/**
+ * Cache Storage のキーの URL から ID を取得
+ */
+function fromCacheRequestURL(url: string): string | null {
+  const index = url.indexOf(CACHE_REQUEST_PREFIX);
+  if (index < 0) {
+    return null;
+  }
+  return decodeURIComponent(url.slice(index + CACHE_REQUEST_PREFIX.length));
+}
+
+/**
+ * レスポンスヘッダーからメタデータを読み取る
+ */
+function readHeaders(id: string, headers: Headers): CachedAssetInfo {
+  return {
+    id,
+    source: decodeURIComponent(headers.get("X-Asset-Source") ?? ""),
+    version: decodeURIComponent(headers.get("X-Asset-Version") ?? ""),
+    size: Number(headers.get("X-Asset-Size") ?? 0),
+    storedAt: Number(headers.get("X-Asset-Stored-At") ?? 0),
+    lastUsedAt: Number(headers.get("X-Asset-Last-Used-At") ?? 0),
+  };
+}
+
+/**
+ * 永続キャッシュの保存先
+ */
+export interface AssetCacheStorage {
+  get(id: string): Promise<CachedAssetEntry | undefined>;
+  put(entry: CachedAssetEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+  /** 保存済みエントリーのメタデータ一覧 */
+  list(): Promise<CachedAssetInfo[]>;
+}
+
+/**
+ * 保存済みファイルのメタデータ
+ */
+export interface CachedAssetInfo {
+  /** アセットキーとファイルの種類から作られる ID */
+  id: string;
+  /** 登録時のパス。変わった場合は無効化される */
+  source: string;
+  /** 保存時のバージョン。変わった場合は無効化される */
+  version: string;
+  /** バイト数 */
+  size: number;
+  storedAt: number;
+  lastUsedAt: number;
+}
+
+/**
+ * 保存済みファイル
+ */
+export interface CachedAssetEntry extends CachedAssetInfo {
+  data: Blob;
+}
+
+/**
+ * ファイル取得結果
+ */
+export interface CachedFileResult {
+  /** 読み込みに使う URL（保存済みの場合は Blob URL） */
+  url: string;
+  /** ストレージから取得できたか */
+  hit: boolean;
+}
+
+/**
+ * 永続キャッシュ設定
+ */
+export interface PersistentCacheConfig {
+  storage: AssetCacheStorage;
+  /** 保存するファイルの合計サイズの上限（KB）。超過分は最終使用日時の古い順に削除される */
+  maxSizeKB?: number;
+}
@@ -1,5 +1,17 @@
-import * as Phaser from "phaser";
-import { AssetManager } from "./AssetsManager";
+import type * as Phaser from "phaser";
+import {
+  AssetEvictedEvent,
+  AssetFileLoadedEvent,
+  AssetKey,
+  AssetManager,
+  AssetRegistryMap,
+  AssetType,
+  DefaultAssetRegistryMap,
+} from "./AssetsManager";
+import {
+  TypedEventEmitter,
+  TypedEventListener,
+} from "../utils/TypedEventEmitter";
 
 /**
  * 汎用サウンドマネージャークラス
@@ -14,27 +26,85 @@ import { AssetManager } from "./AssetsManager";
  * soundManager.defineSoundCategory('bgm', { volume: 0.6, loop: true });
  * soundManager.defineSoundCategory('sfx', { volume: 1.0 });
  *
+ * // 上限では優先度の低い音声から止め、止めた音声は仮想ボイスとして空きを待つ
+ * soundManager.defineCategory('sfx', { maxConcurrent: 8, stealPolicy: 'lowestPriority', virtualize: true });
+ * soundManager.setMaxVoices(16);
+ * soundManager.playSound('explosion', undefined, { priority: 10 });
+ *
+ * // ボイスの再生中は BGM を 60% 下げる
+ * soundManager.defineDucking('voice', 'bgm', { amount: 0.6, attack: 200, release: 800 });
+ *
  * // 音声を登録
  * soundManager.registerSound('click', 'ui', 'assets/click.mp3');
  * soundManager.registerSound('bgm_stage1', 'bgm', 'assets/bgm1.mp3');
  *
+ * // オーディオスプライトのマーカーをそれぞれ1つの音声として登録
+ * soundManager.registerAudioSprite('uiSprite', 'assets/ui.json', 'assets/ui.mp3', [
+ *   { key: 'cursor', category: 'ui' },
+ *   { key: 'explosion', category: 'sfx', marker: 'boom', config: { volume: 0.7 } },
+ * ]);
+ *
  * // 音声を再生
  * soundManager.playSound('click');
  * soundManager.playBGM('bgm_stage1');
+ *
+ * // 2秒かけてクロスフェード
+ * soundManager.playBGM('bgm_boss', undefined, { duration: 2000 });
+ *
+ * // イントロを1回再生してから 12.5〜48秒の区間をループ
+ * soundManager.registerSound('bgm_field', 'bgm', 'assets/field.mp3', { loopStart: 12.5, loopEnd: 48 });
+ *
+ * // プレイリスト（同じ曲が続かないシャッフル）
+ * soundManager.playPlaylist(['bgm_a', 'bgm_b', 'bgm_c'], { mode: 'noRepeat', loop: true, crossfade: 3000 });
+ * soundManager.on('trackChange', ({ current }) => showNowPlaying(current));
+ *
+ * // レイヤー音楽（強さに応じてステムを重ねる）
+ * soundManager.registerLayeredMusic('battle', [
+ *   { key: 'battle_base' },
+ *   { key: 'battle_drums', enterAt: 0.3, fullAt: 0.5 },
+ *   { key: 'battle_lead', enterAt: 0.7 },
+ * ], { states: { calm: 0, boss: 1, drumsOnly: { battle_drums: 1 } } });
+ * soundManager.playLayeredMusic('battle', 0.2);
+ * soundManager.setMusicIntensity(0.8);
+ * soundManager.setMusicState('drumsOnly', 500);
+ *
+ * // キーを型で制限する場合
+ * const typedSoundManager = new SoundManager<'click' | 'bgm_stage1'>(this);
+ * typedSoundManager.playSound('clik'); // コンパイルエラー
  * ```
  */
-export class SoundManager {
+export class SoundManager<
+  K extends string = string,
+  R extends AssetRegistryMap<R> = DefaultAssetRegistryMap
+> {
   private scene: Phaser.Scene;
-  private assetManager?: AssetManager;
-  private sounds: Map<string, SoundEntry> = new Map();
+  private assetManager?: AssetManager<R>;
+  private sounds: Map<K, SoundEntry> = new Map();
   private categories: Map<string, SoundCategory> = new Map();
-  private currentBGM: string | null = null;
+  private currentBGM: K | null = null;
   private bgmSound: Phaser.Sound.BaseSound | null = null;
   private globalVolume: number = 1.0;
   private isMuted: boolean = false;
   private fadeTweens: Map<string, Phaser.Tweens.Tween> = new Map();
-
-  constructor(scene: Phaser.Scene, assetManager?: AssetManager) {
+  private bgmFadeIn: Phaser.Tweens.Tween | null = null;
+  private outgoingBGM: Map<Phaser.Sound.BaseSound, Phaser.Tweens.Tween> =
+    new Map();
+  private playlist: PlaylistState<K> | null = null;
+  private musicDefinitions: Map<string, LayeredMusicDefinition<K>> = new Map();
+  private music: LayeredMusicState<K> | null = null;
+  private musicIntensity: number = 0;
+  private duckingRules: DuckingRule[] = [];
+  private ducking: Map<string, DuckingState> = new Map();
+  private voices: Map<Phaser.Sound.BaseSound, Voice> = new Map();
+  private nextVoiceOrder: number = 0;
+  private maxVoices: number | null = null;
+  private listener: SoundPosition = { x: 0, y: 0 };
+  private stolenCount: number = 0;
+  private virtualizedCount: number = 0;
+  private events: TypedEventEmitter<SoundManagerEvents<K>> =
+    new TypedEventEmitter();
+
+  constructor(scene: Phaser.Scene, assetManager?: AssetManager<R>) {
     this.scene = scene;
     this.assetManager = assetManager;
     this.setupDefaultCategories();
@@ -84,6 +154,10 @@ export class SoundManager {
    * イベントリスナーの設定
    */
   private setupEventListeners(): void {
+    this.assetManager?.on("fileLoaded", this.onAssetLoaded);
+    this.assetManager?.on("evicted", this.onAssetEvicted);
+    this.scene.events.on("update", this.onUpdate);
+
     this.scene.events.on("shutdown", () => {
       this.stopAll();
     });
@@ -93,16 +167,41 @@ export class SoundManager {
     });
   }
 
+  /**
+   * AssetManager で読み込まれた音声の状態を反映
+   */
+  private onAssetLoaded = ({ asset }: AssetFileLoadedEvent): void => {
+    this.sounds.forEach((entry) => {
+      if ((entry.spriteKey ?? entry.key) === asset.key) {
+        entry.isLoaded = true;
+      }
+    });
+  };
+
+  /**
+   * AssetManager でアンロードされた音声の状態を反映
+   */
+  private onAssetEvicted = ({ asset }: AssetEvictedEvent): void => {
+    this.sounds.forEach((entry) => {
+      if ((entry.spriteKey ?? entry.key) === asset.key) {
+        entry.isLoaded = false;
+      }
+    });
+  };
+
   /**
    * サウンドカテゴリを定義
    */
-  defineCategory(name: string, config: SoundCategoryConfig): SoundManager {
+  defineCategory(name: string, config: SoundCategoryConfig): this {
     this.categories.set(name, {
       name,
       volume: config.volume ?? 1.0,
       loop: config.loop ?? false,
       maxConcurrent: config.maxConcurrent ?? 5,
       interrupts: config.interrupts ?? false,
+      stealPolicy:
+        config.stealPolicy ?? (config.interrupts ? "oldest" : "reject"),
+      virtualize: config.virtualize ?? false,
       fadeInDuration: config.fadeInDuration,
       fadeOutDuration: config.fadeOutDuration,
       playingSounds: [],
@@ -110,15 +209,55 @@ export class SoundManager {
     return this;
   }
 
+  /**
+   * カテゴリ間のダッキングを定義
+   * trigger カテゴリの音声が1つでも再生中の間、target カテゴリの音量を amount の割合だけ下げる。
+   * 同じ target に複数のルールが有効な場合は最も大きく下げるルールを使う。
+   * カテゴリ音量は変更しないため、saveSettings には影響しない
+   */
+  defineDucking(
+    trigger: string,
+    target: string,
+    options: DuckingOptions = {}
+  ): this {
+    if (trigger === target) {
+      console.warn(`Category '${trigger}' cannot duck itself`);
+      return this;
+    }
+    this.duckingRules = this.duckingRules.filter(
+      (rule) => rule.trigger !== trigger || rule.target !== target
+    );
+    this.duckingRules.push({
+      trigger,
+      target,
+      amount: clamp01(options.amount ?? 0.5),
+      attack: options.attack ?? 200,
+      release: options.release ?? 800,
+    });
+    this.updateDucking();
+    return this;
+  }
+
+  /**
+   * カテゴリ間のダッキングを解除
+   */
+  removeDucking(trigger: string, target: string): this {
+    this.duckingRules = this.duckingRules.filter(
+      (rule) => rule.trigger !== trigger || rule.target !== target
+    );
+    this.updateDucking();
+    return this;
+  }
+
   /**
    * 音声を登録
    */
   registerSound(
-    key: string,
+    key: K,
     category: string,
     path: string | string[],
     config?: SoundConfig
-  ): SoundManager {
+  ): this {
     if (!this.categories.has(category)) {
       console.warn(
         `Category '${category}' not found. Creating default category.`
@@ -136,7 +275,52 @@ export class SoundManager {
 
     // AssetManagerが利用可能な場合は自動登録
     if (this.assetManager) {
-      this.assetManager.registerAudio(key, path);
+      this.assetManager.registerAudio(
+        key as string as AssetKey<R, AssetType.AUDIO>,
+        path
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * オーディオスプライトを登録
+   * 音声ファイルとマーカー定義 JSON を1つのアセットとして読み込み、
+   * 各マーカーを個別の音声キーとして再生できるようにする。カテゴリ・設定・同時再生数はマーカーごとに扱う
+   */
+  registerAudioSprite(
+    spriteKey: string,
+    jsonPath: string,
+    audioPath: string | string[],
+    markers: AudioSpriteMarkerRegistration<K>[]
+  ): this {
+    for (const marker of markers) {
+      if (!this.categories.has(marker.category)) {
+        console.warn(
+          `Category '${marker.category}' not found. Creating default category.`
+        );
+        this.defineCategory(marker.category, {});
+      }
+
+      this.sounds.set(marker.key, {
+        key: marker.key,
+        category: marker.category,
+        path: audioPath,
+        config: marker.config || {},
+        isLoaded: false,
+        spriteKey,
+        marker: marker.marker ?? marker.key,
+      });
+    }
+
+    // AssetManagerが利用可能な場合は自動登録
+    if (this.assetManager) {
+      this.assetManager.registerAudioSprite(
+        spriteKey as AssetKey<R, AssetType.AUDIO_SPRITE>,
+        jsonPath,
+        audioPath
+      );
     }
 
     return this;
@@ -145,7 +329,7 @@ export class SoundManager {
   /**
    * 複数の音声を一括登録
    */
-  registerSounds(sounds: SoundRegistration[]): SoundManager {
+  registerSounds(sounds: SoundRegistration<K>[]): this {
     sounds.forEach((sound) => {
       this.registerSound(sound.key, sound.category, sound.path, sound.config);
     });
@@ -157,20 +341,41 @@ export class SoundManager {
    */
   registerSoundsByCategory(
     category: string,
-    sounds: { [key: string]: string | string[] }
-  ): SoundManager {
-    Object.entries(sounds).forEach(([key, path]) => {
-      this.registerSound(key, category, path);
-    });
+    sounds: Partial<Record<K, string | string[]>>
+  ): this {
+    (Object.entries(sounds) as [K, string | string[]][]).forEach(
+      ([key, path]) => {
+        this.registerSound(key, category, path);
+      }
+    );
     return this;
   }
 
   /**
    * 音声を再生
+   * options で優先度（登録時の priority より優先）と位置（farthest で使う）を指定できる
    */
   playSound(
-    key: string,
-    config?: Phaser.Types.Sound.SoundConfig
+    key: K,
+    config?: Phaser.Types.Sound.SoundConfig,
+    options: VoiceOptions = {}
+  ): Phaser.Sound.BaseSound | null {
+    return this.playEntry(key, config, options);
+  }
+
+  /**
+   * 音声を再生（内部用）
+   * fadeIn が false の場合はカテゴリのフェードインを行わない（BGM のクロスフェードで使用）。
+   * ignoreLimit 指定時は同時再生数の制限を受けず、再生数にも含めず、他の音声に止められない
+   * （レイヤー音楽のステムで使用。曲はレイヤー音楽の状態として管理する）。
+   * 同時再生数の上限ではカテゴリの stealPolicy で止める音声を選び、止められない場合は
+   * virtualize 指定のカテゴリなら仮想ボイスとして再生する。
+   * ループ再生で loopStart・loopEnd を指定した音声は、イントロを1回再生してから区間をループする
+   */
+  private playEntry(
+    key: K,
+    config?: Phaser.Types.Sound.SoundConfig,
+    options: VoiceOptions & { fadeIn?: boolean; ignoreLimit?: boolean } = {}
   ): Phaser.Sound.BaseSound | null {
     if (this.isMuted) {
       return null;
@@ -189,62 +394,171 @@ export class SoundManager {
     }
 
     // 音声が読み込まれているかチェック
-    if (!this.scene.cache.audio.exists(key)) {
+    const audioKey = soundEntry.spriteKey ?? key;
+    if (!this.scene.cache.audio.exists(audioKey)) {
       console.warn(`Sound '${key}' not loaded`);
       return null;
     }
+    if (
+      soundEntry.marker &&
+      !this.scene.cache.json.get(audioKey)?.spritemap?.[soundEntry.marker]
+    ) {
+      console.warn(
+        `Marker '${soundEntry.marker}' not found in audio sprite '${audioKey}'`
+      );
+      return null;
+    }
 
-    // 同時再生数制限のチェック
-    if (category.playingSounds.length >= category.maxConcurrent) {
-      if (category.interrupts) {
-        // 最も古い音声を停止
-        const oldestSound = category.playingSounds.shift();
-        if (oldestSound) {
-          oldestSound.stop();
-        }
-      } else {
+    const voice: Voice = {
+      category: category.name,
+      priority: options.priority ?? soundEntry.config.priority ?? 0,
+      position: options.position ?? null,
+      order: this.nextVoiceOrder++,
+      limited: !options.ignoreLimit,
+      fade: 1,
+      virtual: false,
+      virtualSeek: 0,
+      onIntroEnd: null,
+    };
+
+    // 同時再生数制限のチェック（カテゴリ → 全体の順）
+    let admitted = true;
+    if (!options.ignoreLimit) {
+      admitted = this.makeRoom(
+        () => category.playingSounds,
+        category.maxConcurrent,
+        category.stealPolicy,
+        voice
+      );
+      if (!admitted) {
         console.log(
           `Max concurrent sounds reached for category '${category.name}'`
         );
-        return null;
+      } else if (this.maxVoices !== null) {
+        admitted = this.makeRoom(
+          () => this.getActiveSounds(),
+          this.maxVoices,
+          category.stealPolicy,
+          voice
+        );
+        if (!admitted) {
+          console.log(`Max voices reached (${this.maxVoices})`);
+        }
       }
     }
+    if (!admitted && !category.virtualize) {
+      return null;
+    }
 
     try {
-      const sound = this.scene.sound.add(key, {
-        volume: category.volume * this.globalVolume,
+      const { loopStart, loopEnd, priority, ...entryConfig } =
+        soundEntry.config;
+      const soundConfig = {
+        volume: this.getCategoryGain(category),
         loop: category.loop,
-        ...soundEntry.config,
+        ...entryConfig,
         ...config,
-      });
+      };
+      const sound = soundEntry.marker
+        ? this.scene.sound.addAudioSprite(audioKey, soundConfig)
+        : this.scene.sound.add(key, soundConfig);
+      const hasLoopPoints =
+        !soundEntry.marker &&
+        soundConfig.loop &&
+        (loopStart !== undefined || loopEnd !== undefined);
+      let introPending = hasLoopPoints && (loopStart ?? 0) > 0;
+
+      if (hasLoopPoints) {
+        const bodyStart = loopStart ?? 0;
+        sound.addMarker({
+          name: LOOP_MARKER,
+          start: bodyStart,
+          duration: (loopEnd ?? sound.totalDuration) - bodyStart,
+        });
+        sound.addMarker({ name: INTRO_MARKER, start: 0, duration: bodyStart });
+      }
 
-      // カテゴリの再生中リストに追加
-      category.playingSounds.push(sound);
+      // マーカーの場合はマーカー定義の設定より登録時・呼び出し時の設定を優先する
+      const start = () => {
+        if (introPending) {
+          sound.play(INTRO_MARKER, { ...soundConfig, loop: false });
+        } else if (hasLoopPoints) {
+          sound.play(LOOP_MARKER, soundConfig);
+        } else if (soundEntry.marker) {
+          sound.play(soundEntry.marker, soundConfig);
+        } else {
+          sound.play();
+        }
+      };
+
+      this.voices.set(sound, voice);
+      this.assetManager?.markUsed(audioKey as AssetKey<R>);
+
+      // イントロの後はループ区間に切り替える
+      const playLoopBody = () => {
+        introPending = false;
+        voice.onIntroEnd = null;
+        sound.off("complete", onComplete);
+        sound.play(LOOP_MARKER, {
+          ...soundConfig,
+          volume: getSoundVolume(sound),
+        });
+        sound.once("complete", onComplete);
+      };
 
       // 再生完了時のクリーンアップ
-      sound.once("complete", () => {
+      const onComplete = () => {
+        if (introPending) {
+          playLoopBody();
+          return;
+        }
+        this.voices.delete(sound);
         this.removeFromCategory(sound, category);
-      });
+      };
+      sound.once("complete", onComplete);
+      if (introPending) {
+        voice.onIntroEnd = playLoopBody;
+      }
 
       sound.once("stop", () => {
+        this.voices.delete(sound);
         this.removeFromCategory(sound, category);
       });
 
+      // 空きがない場合は再生位置だけ進める仮想ボイスにする
+      if (!admitted) {
+        start();
+        this.virtualizeVoice(sound, voice);
+        return sound;
+      }
+
+      // カテゴリの再生中リストに追加
+      category.playingSounds.push(sound);
+      this.updateDucking();
+
       // フェードイン効果
-      if (category.fadeInDuration && category.fadeInDuration > 0) {
-        sound.setVolume(0);
-        sound.play();
-
-        const fadeInTween = this.scene.tweens.add({
-          targets: sound,
-          volume: category.volume * this.globalVolume,
-          duration: category.fadeInDuration,
-          ease: "Power2",
-        });
+      if (
+        options.fadeIn !== false &&
+        category.fadeInDuration &&
+        category.fadeInDuration > 0
+      ) {
+        voice.fade = 0;
+        start();
+        this.applyVolume(sound, category);
+
+        // Phaser の Power2 と同じカーブ
+        const fadeInTween = this.fadeVoice(
+          sound,
+          voice,
+          category,
+          1,
+          category.fadeInDuration,
+          (t) => 1 - (1 - t) ** 3
+        );
 
         this.fadeTweens.set(`${key}_fadein`, fadeInTween);
       } else {
-        sound.play();
+        start();
       }
 
       return sound;
@@ -256,36 +570,527 @@ export class SoundManager {
 
   /**
    * BGMを再生
+   * 再生中の BGM がある場合はクロスフェードで切り替える。
+   * transition を指定しない場合、フェードの長さはカテゴリの fadeOutDuration・fadeInDuration を使う
+   */
+  playBGM(
+    key: K,
+    config?: Phaser.Types.Sound.SoundConfig,
+    transition?: BGMTransition
+  ): void {
+    this.playlist = null;
+    this.switchBGM(key, config, transition);
+  }
+
+  /**
+   * BGMを切り替える（内部用）
+   * 前の BGM は再生中の BGM から外してフェードアウトさせるため、続けて呼ばれても取り残されない
    */
-  playBGM(key: string, config?: Phaser.Types.Sound.SoundConfig): void {
-    // 現在のBGMを停止
-    this.stopBGM();
+  private switchBGM(
+    key: K,
+    config: Phaser.Types.Sound.SoundConfig | undefined,
+    transition: BGMTransition = {}
+  ): boolean {
+    const previous = this.currentBGM;
+    this.releaseBGM(transition);
+
+    const sound = this.playEntry(key, config, { fadeIn: false });
+    if (!sound) {
+      if (previous !== null) {
+        this.events.emit("trackChange", {
+          previous,
+          current: null,
+          fromPlaylist: this.playlist !== null,
+        });
+      }
+      return false;
+    }
+
+    this.currentBGM = key;
+    this.bgmSound = sound;
+    sound.on("complete", () => this.onBGMComplete(sound));
+
+    const category = this.getCategoryBySound(key);
+    const duration = transition.duration ?? category?.fadeInDuration ?? 0;
+    const voice = this.voices.get(sound);
+    if (duration > 0 && voice) {
+      voice.fade = 0;
+      this.applyVolume(sound, category);
+      this.bgmFadeIn = this.fadeVoice(
+        sound,
+        voice,
+        category,
+        1,
+        duration,
+        transition.curve
+      );
+    }
+
+    this.events.emit("trackChange", {
+      previous,
+      current: key,
+      fromPlaylist: this.playlist !== null,
+    });
+    return true;
+  }
 
-    const sound = this.playSound(key, config);
-    if (sound) {
-      this.currentBGM = key;
-      this.bgmSound = sound;
+  /**
+   * 再生中の BGM（レイヤー音楽を含む）をフェードアウトさせ、再生中の BGM から外す
+   */
+  private releaseBGM(transition: BGMTransition = {}): void {
+    const sound = this.bgmSound;
+    const key = this.currentBGM;
+    const music = this.music;
+    this.bgmFadeIn?.stop();
+    this.bgmFadeIn = null;
+    this.bgmSound = null;
+    this.currentBGM = null;
+    this.music = null;
+    if (sound && key !== null) {
+      this.fadeOutAndStop(sound, this.getCategoryBySound(key), transition);
+    }
+    music?.layers.forEach((state) => {
+      state.tween?.stop();
+      this.fadeOutAndStop(
+        state.sound,
+        this.getCategoryBySound(state.layer.key),
+        transition
+      );
+    });
+  }
+
+  /**
+   * 音声をカテゴリの再生中リストから外し、フェードアウトしてから停止する
+   */
+  private fadeOutAndStop(
+    sound: Phaser.Sound.BaseSound,
+    category: SoundCategory | null,
+    transition: BGMTransition
+  ): void {
+    // フェード中の音声は同時再生数に含めない
+    if (category) {
+      this.removeFromCategory(sound, category);
+    }
+    const duration = transition.duration ?? category?.fadeOutDuration ?? 0;
+    if (duration > 0 && sound.isPlaying) {
+      const tween = this.fadeVolume(
+        sound,
+        0,
+        duration,
+        transition.curve,
+        () => {
+          this.outgoingBGM.delete(sound);
+          sound.stop();
+        }
+      );
+      this.outgoingBGM.set(sound, tween);
+    } else {
+      sound.stop();
     }
   }
 
   /**
    * BGMを停止
+   * プレイリストの再生中はプレイリストも終了する
    */
-  stopBGM(): void {
-    if (this.bgmSound && this.currentBGM) {
-      const category = this.getCategoryBySound(this.currentBGM);
+  stopBGM(transition?: BGMTransition): void {
+    const previous = this.currentBGM;
+    this.playlist = null;
+    this.releaseBGM(transition);
+    if (previous !== null) {
+      this.events.emit("trackChange", {
+        previous,
+        current: null,
+        fromPlaylist: false,
+      });
+    }
+  }
 
-      if (category?.fadeOutDuration && category.fadeOutDuration > 0) {
-        this.fadeOutSound(this.bgmSound, category.fadeOutDuration, () => {
-          this.bgmSound = null;
-          this.currentBGM = null;
-        });
-      } else {
-        this.bgmSound.stop();
-        this.bgmSound = null;
-        this.currentBGM = null;
+  /**
+   * レイヤー音楽を登録
+   * 同じ長さのステム（登録済みの音声）を重ね、強さ（0〜1）や名前付きの状態に応じて各レイヤーの音量を変える
+   */
+  registerLayeredMusic(
+    key: string,
+    layers: MusicLayer<K>[],
+    options: LayeredMusicOptions<K> = {}
+  ): this {
+    if (layers.length === 0) {
+      console.warn(`Layered music '${key}' has no layers`);
+      return this;
+    }
+    this.musicDefinitions.set(key, {
+      layers: [...layers],
+      states: { ...options.states },
+      fadeDuration: options.fadeDuration,
+      curve: options.curve,
+    });
+    return this;
+  }
+
+  /**
+   * レイヤー音楽を再生
+   * 全てのステムを同時にループ再生し、鳴らさないレイヤーも音量 0 で再生し続けるため、
+   * 曲の途中でレイヤーを重ねても再生位置がずれない。再生中の BGM はフェードアウトさせる
+   */
+  playLayeredMusic(
+    key: string,
+    intensity?: number,
+    transition: BGMTransition = {}
+  ): boolean {
+    const definition = this.musicDefinitions.get(key);
+    if (!definition) {
+      console.warn(`Layered music '${key}' not registered`);
+      return false;
+    }
+
+    const previous = this.currentBGM;
+    this.playlist = null;
+    this.releaseBGM(transition);
+    if (previous !== null) {
+      this.events.emit("trackChange", {
+        previous,
+        current: null,
+        fromPlaylist: false,
+      });
+    }
+
+    const layers: MusicLayerState<K>[] = [];
+    for (const layer of definition.layers) {
+      const sound = this.playEntry(
+        layer.key,
+        { loop: true, volume: 0 },
+        { fadeIn: false, ignoreLimit: true }
+      );
+      if (!sound) {
+        console.warn(`Failed to start layer '${layer.key}' of '${key}'`);
+        layers.forEach((started) => started.sound.stop());
+        return false;
+      }
+      layers.push({ layer, sound, gain: 0, tween: null });
+    }
+
+    this.music = { key, definition, layers };
+    if (intensity !== undefined) {
+      this.musicIntensity = clamp01(intensity);
+    }
+    this.fadeLayers(
+      (layer) => getLayerGain(layer, this.musicIntensity),
+      transition.duration,
+      transition.curve
+    );
+    return true;
+  }
+
+  /**
+   * レイヤー音楽の強さ（0〜1）を設定
+   * 各レイヤーは enterAt から fullAt にかけてフェードインする。
+   * レイヤー音楽を再生していない場合も値は保持され、次に再生したときに使われる
+   */
+  setMusicIntensity(intensity: number, duration?: number): void {
+    this.musicIntensity = clamp01(intensity);
+    this.fadeLayers(
+      (layer) => getLayerGain(layer, this.musicIntensity),
+      duration
+    );
+  }
+
+  /**
+   * レイヤー音楽を名前付きの状態にする
+   * 状態が強さの場合は setMusicIntensity と同じ。レイヤーごとの音量の場合は指定のないレイヤーを消す
+   */
+  setMusicState(name: string, duration?: number): void {
+    const music = this.music;
+    if (!music) {
+      return;
+    }
+    const state = music.definition.states[name];
+    if (state === undefined) {
+      console.warn(`Music state '${name}' not defined for '${music.key}'`);
+      return;
+    }
+    if (typeof state === "number") {
+      this.setMusicIntensity(state, duration);
+      return;
+    }
+    this.fadeLayers(
+      (layer) => clamp01(state[layer.key] ?? 0) * (layer.volume ?? 1),
+      duration
+    );
+  }
+
+  /**
+   * レイヤー音楽の強さを取得
+   */
+  getMusicIntensity(): number {
+    return this.musicIntensity;
+  }
+
+  /**
+   * 再生中のレイヤー音楽のキーを取得
+   */
+  getCurrentMusic(): string | null {
+    return this.music?.key ?? null;
+  }
+
+  /**
+   * 再生中のレイヤー音楽の各レイヤーを目標の音量へフェードさせる
+   * 長さを指定しない場合は登録時の fadeDuration、カテゴリの fadeInDuration の順に使う
+   */
+  private fadeLayers(
+    getGain: (layer: MusicLayer<K>) => number,
+    duration?: number,
+    curve?: FadeCurve
+  ): void {
+    const music = this.music;
+    if (!music) {
+      return;
+    }
+    music.layers.forEach((state) => {
+      const category = this.getCategoryBySound(state.layer.key);
+      const fadeDuration =
+        duration ??
+        music.definition.fadeDuration ??
+        category?.fadeInDuration ??
+        1000;
+      const apply = (gain: number) => {
+        state.gain = gain;
+        this.applyVolume(state.sound, category);
+      };
+
+      state.tween?.stop();
+      state.tween = null;
+      const target = getGain(state.layer);
+      if (fadeDuration <= 0) {
+        apply(target);
+        return;
+      }
+      state.tween = this.tweenValue(
+        state.gain,
+        target,
+        fadeDuration,
+        curve ?? music.definition.curve,
+        apply,
+        () => {
+          state.tween = null;
+        }
+      );
+    });
+  }
+
+  /**
+   * BGM のプレイリストを再生
+   * 曲の終わりに次の曲へ切り替え、crossfade を指定した場合は曲の終わりの手前からクロスフェードする。
+   * 曲はループさせず、最後まで再生したら playlistEnd イベントを発行する
+   */
+  playPlaylist(tracks: K[], options: BGMPlaylistOptions = {}): void {
+    if (tracks.length === 0) {
+      console.warn("Playlist has no tracks");
+      return;
+    }
+    const mode = options.mode ?? "sequential";
+    this.playlist = {
+      tracks: [...tracks],
+      order: createPlaylistOrder(tracks, mode, null),
+      position: 0,
+      failures: 0,
+      options: { ...options, mode },
+    };
+    this.playPlaylistTrack();
+  }
+
+  /**
+   * プレイリストの次の曲に切り替える
+   */
+  nextTrack(): void {
+    if (this.playlist) {
+      this.advancePlaylist();
+    }
+  }
+
+  /**
+   * プレイリストを再生中かチェック
+   */
+  isPlaylistActive(): boolean {
+    return this.playlist !== null;
+  }
+
+  /**
+   * プレイリストの現在位置の曲を再生
+   * 再生できない曲は飛ばす
+   */
+  private playPlaylistTrack(): void {
+    const playlist = this.playlist;
+    if (!playlist) {
+      return;
+    }
+    const { crossfade, curve, config } = playlist.options;
+    const key = playlist.order[playlist.position];
+    const started = this.switchBGM(
+      key,
+      { ...config, loop: false },
+      { duration: crossfade, curve }
+    );
+    if (!started && this.playlist === playlist) {
+      console.warn(`Skipping playlist track '${key}'`);
+      // 全て再生できない場合に繰り返さないよう、1周分で打ち切る
+      if (++playlist.failures >= playlist.order.length) {
+        this.playlist = null;
+        return;
+      }
+      this.advancePlaylist();
+    } else {
+      playlist.failures = 0;
+    }
+  }
+
+  /**
+   * プレイリストを次の曲に進める
+   * 最後の曲の後は playlistEnd を発行し、loop 指定時は曲順を作り直して先頭に戻る
+   */
+  private advancePlaylist(): void {
+    const playlist = this.playlist;
+    if (!playlist) {
+      return;
+    }
+    playlist.position++;
+    if (playlist.position >= playlist.order.length) {
+      const loop = !!playlist.options.loop;
+      this.events.emit("playlistEnd", { tracks: playlist.tracks, loop });
+      if (!loop || this.playlist !== playlist) {
+        if (this.playlist === playlist) {
+          this.playlist = null;
+        }
+        return;
+      }
+      playlist.order = createPlaylistOrder(
+        playlist.tracks,
+        playlist.options.mode!,
+        playlist.order[playlist.order.length - 1]
+      );
+      playlist.position = 0;
+    }
+    this.playPlaylistTrack();
+  }
+
+  /**
+   * 毎フレームの更新
+   */
+  private onUpdate = (_time: number, delta: number): void => {
+    this.updatePlaylist();
+    this.updateVirtualVoices(delta);
+  };
+
+  /**
+   * 曲の終わりが近づいたらクロスフェードで次の曲に切り替える
+   */
+  private updatePlaylist(): void {
+    const playlist = this.playlist;
+    const sound = this.bgmSound;
+    const crossfade = playlist?.options.crossfade ?? 0;
+    if (!playlist || !sound?.isPlaying || crossfade <= 0) {
+      return;
+    }
+    const hasNext =
+      playlist.position + 1 < playlist.order.length || playlist.options.loop;
+    const remaining = (sound.duration - getSoundSeek(sound)) * 1000;
+    if (hasNext && remaining <= crossfade) {
+      this.advancePlaylist();
+    }
+  }
+
+  /**
+   * BGM が最後まで再生された
+   */
+  private onBGMComplete(sound: Phaser.Sound.BaseSound): void {
+    // イントロの終了時はループ区間の再生が始まっている
+    if (sound !== this.bgmSound || sound.isPlaying) {
+      return;
+    }
+    if (this.playlist) {
+      this.advancePlaylist();
+      if (this.bgmSound !== sound) {
+        return;
       }
     }
+    // ループしない BGM が終わった
+    const previous = this.currentBGM;
+    this.bgmSound = null;
+    this.currentBGM = null;
+    this.events.emit("trackChange", {
+      previous,
+      current: null,
+      fromPlaylist: false,
+    });
+  }
+
+  /**
+   * 音量をカーブに沿って変化させる
+   */
+  private fadeVolume(
+    sound: Phaser.Sound.BaseSound,
+    to: number,
+    duration: number,
+    curve?: FadeCurve,
+    onComplete?: () => void
+  ): Phaser.Tweens.Tween {
+    return this.tweenValue(
+      getSoundVolume(sound),
+      to,
+      duration,
+      curve,
+      (volume) => setSoundVolume(sound, volume),
+      onComplete
+    );
+  }
+
+  /**
+   * ボイスのフェードの割合（0〜1）をカーブに沿って変化させる
+   * 音量はカテゴリ音量・ダッキングにフェードの割合を掛けて求めるため、
+   * フェード中にダッキングが変わっても目標の音量がずれない
+   */
+  private fadeVoice(
+    sound: Phaser.Sound.BaseSound,
+    voice: Voice,
+    category: SoundCategory | null,
+    to: number,
+    duration: number,
+    curve?: FadeCurve
+  ): Phaser.Tweens.Tween {
+    return this.tweenValue(voice.fade, to, duration, curve, (fade) => {
+      voice.fade = fade;
+      this.applyVolume(sound, category);
+    });
+  }
+
+  /**
+   * 値をカーブに沿って変化させる
+   */
+  private tweenValue(
+    from: number,
+    to: number,
+    duration: number,
+    curve: FadeCurve = "equalPower",
+    apply: (value: number) => void,
+    onComplete?: () => void
+  ): Phaser.Tweens.Tween {
+    const shape = typeof curve === "function" ? curve : FADE_CURVES[curve];
+    return this.scene.tweens.addCounter({
+      from: 0,
+      to: 1,
+      duration,
+      onUpdate: (tween) => {
+        const t = tween.getValue() ?? 1;
+        // フェードアウトはフェードインのカーブを時間反転したものを使う
+        const eased = to >= from ? shape(t) : 1 - shape(1 - t);
+        apply(from + (to - from) * eased);
+      },
+      // 最後のフレームの進捗が 1 にならない場合も終了値にそろえる
+      onComplete: () => {
+        apply(to);
+        onComplete?.();
+      },
+    });
   }
 
   /**
@@ -320,7 +1125,13 @@ export class SoundManager {
         sound.stop();
       });
       category.playingSounds.length = 0;
+      this.updateDucking();
     }
+    this.voices.forEach((voice, sound) => {
+      if (voice.virtual && voice.category === categoryName) {
+        sound.stop();
+      }
+    });
   }
 
   /**
@@ -328,12 +1139,25 @@ export class SoundManager {
    */
   stopAll(): void {
     this.scene.sound.stopAll();
+    this.voices.clear();
     this.categories.forEach((category) => {
       category.playingSounds.length = 0;
     });
+    this.updateDucking();
+    const previous = this.currentBGM;
     this.currentBGM = null;
     this.bgmSound = null;
+    this.playlist = null;
+    this.music?.layers.forEach((state) => state.tween?.stop());
+    this.music = null;
     this.clearFadeTweens();
+    if (previous !== null) {
+      this.events.emit("trackChange", {
+        previous,
+        current: null,
+        fromPlaylist: false,
+      });
+    }
   }
 
   /**
@@ -342,15 +1166,11 @@ export class SoundManager {
   setCategoryVolume(categoryName: string, volume: number): void {
     const category = this.categories.get(categoryName);
     if (category) {
-      category.volume = Phaser.Math.Clamp(volume, 0, 1);
+      category.volume = Math.min(Math.max(volume, 0), 1);
 
       // 現在再生中の音声の音量も更新
       category.playingSounds.forEach((sound) => {
-        if ("setVolume" in sound) {
-          (sound as any).setVolume(category.volume * this.globalVolume);
-        } else if ("volume" in sound) {
-          (sound as any).volume = category.volume * this.globalVolume;
-        }
+        this.applyVolume(sound, category);
       });
     }
   }
@@ -359,20 +1179,101 @@ export class SoundManager {
    * グローバル音量を設定
    */
   setGlobalVolume(volume: number): void {
-    this.globalVolume = Phaser.Math.Clamp(volume, 0, 1);
+    this.globalVolume = Math.min(Math.max(volume, 0), 1);
 
     // 全ての再生中音声の音量を更新
     this.categories.forEach((category) => {
       category.playingSounds.forEach((sound) => {
-        if ("setVolume" in sound) {
-          (sound as any).setVolume(category.volume * this.globalVolume);
-        } else if ("volume" in sound) {
-          (sound as any).volume = category.volume * this.globalVolume;
-        }
+        this.applyVolume(sound, category);
       });
     });
   }
 
+  /**
+   * カテゴリ音量・グローバル音量・ダッキングを音声に反映
+   * フェードイン中の音声はフェードの割合、レイヤー音楽のステムはレイヤーの音量を掛ける
+   */
+  private applyVolume(
+    sound: Phaser.Sound.BaseSound,
+    category: SoundCategory | null
+  ): void {
+    const state = this.music?.layers.find((state) => state.sound === sound);
+    const gain = category ? this.getCategoryGain(category) : this.globalVolume;
+    const fade = this.voices.get(sound)?.fade ?? 1;
+    setSoundVolume(sound, gain * fade * (state?.gain ?? 1));
+  }
+
+  /**
+   * カテゴリの音声に掛ける音量（カテゴリ音量 × グローバル音量 × ダッキング）
+   */
+  private getCategoryGain(category: SoundCategory): number {
+    const ducking = this.ducking.get(category.name)?.gain ?? 1;
+    return category.volume * this.globalVolume * ducking;
+  }
+
+  /**
+   * 再生中の音声に応じてダッキングを更新
+   * 下げるときは有効なルールの attack、戻すときは直前まで有効だったルールの release の長さでフェードする
+   */
+  private updateDucking(): void {
+    const targets = new Set([
+      ...this.duckingRules.map((rule) => rule.target),
+      ...this.ducking.keys(),
+    ]);
+    targets.forEach((name) => {
+      const rule = this.duckingRules
+        .filter(
+          (rule) =>
+            rule.target === name &&
+            (this.categories.get(rule.trigger)?.playingSounds.length ?? 0) > 0
+        )
+        .reduce<DuckingRule | null>(
+          (strongest, rule) =>
+            !strongest || rule.amount > strongest.amount ? rule : strongest,
+          null
+        );
+      const state: DuckingState = this.ducking.get(name) ?? {
+        gain: 1,
+        target: 1,
+        rule: null,
+        tween: null,
+      };
+      this.ducking.set(name, state);
+
+      const target = 1 - (rule?.amount ?? 0);
+      if (target !== state.target) {
+        const duration =
+          target < state.target ? rule?.attack ?? 0 : state.rule?.release ?? 0;
+        const category = this.categories.get(name);
+        const apply = (gain: number) => {
+          state.gain = gain;
+          category?.playingSounds.forEach((sound) =>
+            this.applyVolume(sound, category)
+          );
+        };
+
+        state.target = target;
+        state.tween?.stop();
+        state.tween = null;
+        if (duration > 0) {
+          state.tween = this.tweenValue(
+            state.gain,
+            target,
+            duration,
+            "linear",
+            apply,
+            () => {
+              state.tween = null;
+            }
+          );
+        } else {
+          apply(target);
+        }
+      }
+      state.rule = rule;
+    });
+  }
+
   /**
    * ミュート設定
    */
@@ -382,6 +1283,12 @@ export class SoundManager {
       this.scene.sound.pauseAll();
     } else {
       this.scene.sound.resumeAll();
+      // 仮想ボイスは聞こえないままにする
+      this.voices.forEach((voice, sound) => {
+        if (voice.virtual) {
+          sound.pause();
+        }
+      });
     }
   }
 
@@ -392,6 +1299,202 @@ export class SoundManager {
     this.setMuted(!this.isMuted);
   }
 
+  /**
+   * 全体の同時再生数の上限を設定（null で無制限）
+   * 以降に再生する音声から適用する
+   */
+  setMaxVoices(max: number | null): void {
+    this.maxVoices = max === null ? null : Math.max(0, Math.floor(max));
+  }
+
+  /**
+   * リスナーの位置を設定（stealPolicy が farthest の場合に使う）
+   */
+  setListenerPosition(x: number, y: number): void {
+    this.listener = { x, y };
+  }
+
+  /**
+   * 再生中の音声の位置を更新
+   */
+  setSoundPosition(sound: Phaser.Sound.BaseSound, x: number, y: number): void {
+    const voice = this.voices.get(sound);
+    if (voice) {
+      voice.position = { x, y };
+    }
+  }
+
+  /**
+   * 聞こえている音声（仮想ボイスを除く）を取得
+   */
+  private getActiveSounds(): Phaser.Sound.BaseSound[] {
+    return Array.from(this.categories.values()).flatMap(
+      (category) => category.playingSounds
+    );
+  }
+
+  /**
+   * 同時再生数に含める音声の数（レイヤー音楽のステムは含めない）
+   */
+  private countVoices(sounds: Phaser.Sound.BaseSound[]): number {
+    return sounds.filter((sound) => this.voices.get(sound)?.limited ?? true)
+      .length;
+  }
+
+  /**
+   * 再生数が上限未満になるまで、方針に従って音声を止める
+   * 止められる音声がない場合は false を返す
+   */
+  private makeRoom(
+    getSounds: () => Phaser.Sound.BaseSound[],
+    limit: number,
+    policy: VoiceStealPolicy,
+    incoming: Voice
+  ): boolean {
+    while (this.countVoices(getSounds()) >= limit) {
+      const victim = this.selectVictim(getSounds(), policy, incoming);
+      if (!victim) {
+        return false;
+      }
+      this.stealVoice(victim);
+    }
+    return true;
+  }
+
+  /**
+   * 止める音声を選ぶ
+   * 新しい音声より優先度の高い音声は選ばない。同じ条件の場合は古い音声を選ぶ
+   */
+  private selectVictim(
+    sounds: Phaser.Sound.BaseSound[],
+    policy: VoiceStealPolicy,
+    incoming: Voice
+  ): Phaser.Sound.BaseSound | null {
+    if (policy === "reject") {
+      return null;
+    }
+    const score = (sound: Phaser.Sound.BaseSound, voice: Voice): number => {
+      switch (policy) {
+        case "quietest":
+          return -getSoundVolume(sound);
+        case "lowestPriority":
+          return -voice.priority;
+        case "farthest":
+          return voice.position
+            ? Math.hypot(
+                voice.position.x - this.listener.x,
+                voice.position.y - this.listener.y
+              )
+            : 0;
+        default:
+          return 0;
+      }
+    };
+
+    let victim: Phaser.Sound.BaseSound | null = null;
+    let best: { score: number; order: number } | null = null;
+    sounds.forEach((sound) => {
+      const voice = this.voices.get(sound);
+      if (!voice || !voice.limited || voice.priority > incoming.priority) {
+        return;
+      }
+      const candidate = { score: score(sound, voice), order: voice.order };
+      if (
+        !best ||
+        candidate.score > best.score ||
+        (candidate.score === best.score && candidate.order < best.order)
+      ) {
+        victim = sound;
+        best = candidate;
+      }
+    });
+    return victim;
+  }
+
+  /**
+   * 音声を止める（virtualize 指定のカテゴリは仮想ボイスにする）
+   */
+  private stealVoice(sound: Phaser.Sound.BaseSound): void {
+    const voice = this.voices.get(sound);
+    this.stolenCount++;
+    if (voice && this.categories.get(voice.category)?.virtualize) {
+      this.virtualizeVoice(sound, voice);
+      return;
+    }
+    sound.stop();
+    // stop イベントで外れなかった場合も再生数に含めない
+    this.categories.forEach((category) =>
+      this.removeFromCategory(sound, category)
+    );
+  }
+
+  /**
+   * 音声を仮想ボイスにする
+   * 一時停止して再生位置を記録し、カテゴリの再生中リストから外す
+   */
+  private virtualizeVoice(sound: Phaser.Sound.BaseSound, voice: Voice): void {
+    voice.virtual = true;
+    voice.virtualSeek = getSoundSeek(sound);
+    sound.pause();
+    this.virtualizedCount++;
+    const category = this.categories.get(voice.category);
+    if (category) {
+      this.removeFromCategory(sound, category);
+    }
+  }
+
+  /**
+   * 仮想ボイスの再生位置を進め、空きがあれば優先度の高い順に聞こえる状態に戻す
+   * ループしない仮想ボイスは終端に達したら停止する
+   */
+  private updateVirtualVoices(delta: number): void {
+    if (this.isMuted) {
+      return;
+    }
+    const virtualVoices = Array.from(this.voices.entries()).filter(
+      ([, voice]) => voice.virtual
+    );
+    virtualVoices.forEach(([sound, voice]) => {
+      const playable = sound as PlayableSound;
+      voice.virtualSeek += (delta / 1000) * playable.rate;
+      if (voice.virtualSeek >= sound.duration) {
+        if (voice.onIntroEnd) {
+          // イントロを過ぎた場合はループ区間に切り替えて仮想のまま続ける
+          const overflow = voice.virtualSeek - sound.duration;
+          voice.onIntroEnd();
+          sound.pause();
+          voice.virtualSeek =
+            sound.duration > 0 ? overflow % sound.duration : 0;
+        } else if (playable.loop && sound.duration > 0) {
+          voice.virtualSeek %= sound.duration;
+        } else {
+          sound.stop();
+        }
+      }
+    });
+
+    virtualVoices
+      .filter(([sound]) => this.voices.has(sound))
+      .sort(([, a], [, b]) => b.priority - a.priority || a.order - b.order)
+      .forEach(([sound, voice]) => {
+        const category = this.categories.get(voice.category);
+        if (
+          !category ||
+          this.countVoices(category.playingSounds) >= category.maxConcurrent ||
+          (this.maxVoices !== null &&
+            this.countVoices(this.getActiveSounds()) >= this.maxVoices)
+        ) {
+          return;
+        }
+        voice.virtual = false;
+        (sound as PlayableSound).setSeek(voice.virtualSeek);
+        sound.resume();
+        category.playingSounds.push(sound);
+        this.applyVolume(sound, category);
+        this.updateDucking();
+      });
+  }
+
   /**
    * カテゴリから音声を削除
    */
@@ -402,13 +1505,14 @@ export class SoundManager {
     const index = category.playingSounds.indexOf(sound);
     if (index > -1) {
       category.playingSounds.splice(index, 1);
+      this.updateDucking();
     }
   }
 
   /**
    * 音声が属するカテゴリを取得
    */
-  private getCategoryBySound(soundKey: string): SoundCategory | null {
+  private getCategoryBySound(soundKey: K): SoundCategory | null {
     const soundEntry = this.sounds.get(soundKey);
     if (soundEntry) {
       return this.categories.get(soundEntry.category) || null;
@@ -426,12 +1530,20 @@ export class SoundManager {
       }
     });
     this.fadeTweens.clear();
+    this.bgmFadeIn?.stop();
+    this.bgmFadeIn = null;
+    // フェードアウト中の BGM は止めずに残さない
+    this.outgoingBGM.forEach((tween, sound) => {
+      tween.stop();
+      sound.stop();
+    });
+    this.outgoingBGM.clear();
   }
 
   /**
    * 現在のBGMキーを取得
    */
-  getCurrentBGM(): string | null {
+  getCurrentBGM(): K | null {
     return this.currentBGM;
   }
 
@@ -466,14 +1578,14 @@ export class SoundManager {
   /**
    * 登録済み音声一覧を取得
    */
-  getRegisteredSounds(): string[] {
+  getRegisteredSounds(): K[] {
     return Array.from(this.sounds.keys());
   }
 
   /**
    * カテゴリ別音声一覧を取得
    */
-  getSoundsByCategory(categoryName: string): string[] {
+  getSoundsByCategory(categoryName: string): K[] {
     return Array.from(this.sounds.entries())
       .filter(([_, sound]) => sound.category === categoryName)
       .map(([key, _]) => key);
@@ -515,34 +1627,156 @@ export class SoundManager {
     this.categories.forEach((category, name) => {
       categoryInfo[name] = {
         volume: category.volume,
-        playingSounds: category.playingSounds.length,
+        playingSounds: this.countVoices(category.playingSounds),
         maxConcurrent: category.maxConcurrent,
+        ducking: this.ducking.get(name)?.gain ?? 1,
       };
     });
 
+    const virtualVoices = Array.from(this.voices.values()).filter(
+      (voice) => voice.virtual
+    ).length;
+
     return {
       globalVolume: this.globalVolume,
       isMuted: this.isMuted,
       currentBGM: this.currentBGM,
       isBGMPlaying: this.isBGMPlaying(),
+      currentMusic: this.getCurrentMusic(),
+      musicIntensity: this.musicIntensity,
+      voices: {
+        active: this.getActiveSounds().length,
+        virtual: virtualVoices,
+        max: this.maxVoices,
+        stolen: this.stolenCount,
+        virtualized: this.virtualizedCount,
+      },
       totalRegisteredSounds: this.sounds.size,
       categories: categoryInfo,
     };
   }
 
+  /**
+   * イベントリスナーを登録
+   */
+  on<E extends keyof SoundManagerEvents<K>>(
+    event: E,
+    listener: TypedEventListener<SoundManagerEvents<K>, E>
+  ): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * イベントリスナーを解除
+   */
+  off<E extends keyof SoundManagerEvents<K>>(
+    event: E,
+    listener: TypedEventListener<SoundManagerEvents<K>, E>
+  ): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
   /**
    * リソースを解放
    */
   dispose(): void {
     this.stopAll();
     this.clearFadeTweens();
+    this.ducking.forEach((state) => state.tween?.stop());
+    this.ducking.clear();
+    this.duckingRules = [];
+    this.voices.clear();
     this.sounds.clear();
     this.categories.clear();
+    this.events.removeAllListeners();
+    this.assetManager?.off("fileLoaded", this.onAssetLoaded);
+    this.assetManager?.off("evicted", this.onAssetEvicted);
+    this.scene.events.off("update", this.onUpdate);
     this.scene.events.off("shutdown");
     this.scene.events.off("destroy");
   }
 }
 
+/**
+ * ループ区間・イントロに使う内部マーカー名
+ */
+const LOOP_MARKER = "__loop";
+const INTRO_MARKER = "__intro";
+
+/**
+ * フェードのカーブ（フェードイン時の 0〜1 の進捗に対する音量の割合）
+ */
+const FADE_CURVES: { [name in FadeCurveName]: (t: number) => number } = {
+  linear: (t) => t,
+  // 2曲の音量の2乗和を一定に保ち、クロスフェード中の音量の落ち込みを防ぐ
+  equalPower: (t) => Math.sin((t * Math.PI) / 2),
+  smooth: (t) => t * t * (3 - 2 * t),
+};
+
+const getSoundVolume = (sound: Phaser.Sound.BaseSound): number =>
+  (sound as PlayableSound).volume ?? 1;
+
+const setSoundVolume = (sound: Phaser.Sound.BaseSound, volume: number) => {
+  if ("setVolume" in sound) {
+    (sound as PlayableSound).setVolume(volume);
+  } else if ("volume" in sound) {
+    (sound as PlayableSound).volume = volume;
+  }
+};
+
+const getSoundSeek = (sound: Phaser.Sound.BaseSound): number =>
+  (sound as PlayableSound).seek ?? 0;
+
+/**
+ * プレイリストの1周分の曲順を作成
+ * noRepeat の場合は前の周の最後の曲（previous）が先頭に来ないようにする
+ */
+const createPlaylistOrder = <K extends string>(
+  tracks: K[],
+  mode: BGMPlaylistMode,
+  previous: K | null
+): K[] => {
+  if (mode === "sequential") {
+    return [...tracks];
+  }
+  const order = [...tracks];
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (mode === "noRepeat" && order.length > 1 && order[0] === previous) {
+    const swap = 1 + Math.floor(Math.random() * (order.length - 1));
+    [order[0], order[swap]] = [order[swap], order[0]];
+  }
+  return order;
+};
+
+/**
+ * 値を 0〜1 に収める
+ */
+const clamp01 = (value: number): number => Math.min(Math.max(value, 0), 1);
+
+/**
+ * 強さに応じたレイヤーの音量
+ */
+const getLayerGain = <K extends string>(
+  layer: MusicLayer<K>,
+  intensity: number
+): number => {
+  const enterAt = layer.enterAt ?? 0;
+  const fullAt = layer.fullAt ?? enterAt;
+  const volume = layer.volume ?? 1;
+  if (intensity < enterAt) {
+    return 0;
+  }
+  if (fullAt <= enterAt || intensity >= fullAt) {
+    return volume;
+  }
+  return ((intensity - enterAt) / (fullAt - enterAt)) * volume;
+};
+
 /**
  * 音声エントリー
  */
@@ -552,6 +1786,10 @@ interface SoundEntry {
   path: string | string[];
   config: SoundConfig;
   isLoaded: boolean;
+  /** オーディオスプライトのアセットキー（マーカーの場合） */
+  spriteKey?: string;
+  /** オーディオスプライトのマーカー名 */
+  marker?: string;
 }
 
 /**
@@ -563,11 +1801,107 @@ interface SoundCategory {
   loop: boolean;
   maxConcurrent: number;
   interrupts: boolean;
+  stealPolicy: VoiceStealPolicy;
+  virtualize: boolean;
   fadeInDuration?: number;
   fadeOutDuration?: number;
   playingSounds: Phaser.Sound.BaseSound[];
 }
 
+/**
+ * 再生中の音声（ボイス）の情報
+ */
+interface Voice {
+  category: string;
+  priority: number;
+  position: SoundPosition | null;
+  /** 再生を開始した順番 */
+  order: number;
+  /** 同時再生数の制限を受けるか（false の場合は再生数に含めず、上限で止められない） */
+  limited: boolean;
+  /** フェードインの音量の割合（0〜1） */
+  fade: number;
+  virtual: boolean;
+  /** 仮想ボイスの再生位置（秒） */
+  virtualSeek: number;
+  /** イントロの再生中に、ループ区間へ切り替える */
+  onIntroEnd: (() => void) | null;
+}
+
+/**
+ * 音量・再生位置などを持つ音声
+ * scene.sound.add() が返す BaseSound を、実際のサウンドマネージャーの型として扱う
+ */
+type PlayableSound =
+  | Phaser.Sound.WebAudioSound
+  | Phaser.Sound.HTML5AudioSound
+  | Phaser.Sound.NoAudioSound;
+
+/**
+ * 登録されたレイヤー音楽
+ */
+interface LayeredMusicDefinition<K extends string> {
+  layers: MusicLayer<K>[];
+  states: { [name: string]: MusicState<K> };
+  fadeDuration?: number;
+  curve?: FadeCurve;
+}
+
+/**
+ * 再生中のレイヤー音楽
+ */
+interface LayeredMusicState<K extends string> {
+  key: string;
+  definition: LayeredMusicDefinition<K>;
+  layers: MusicLayerState<K>[];
+}
+
+/**
+ * 再生中のレイヤー（gain はカテゴリ音量・グローバル音量に掛ける音量）
+ */
+interface MusicLayerState<K extends string> {
+  layer: MusicLayer<K>;
+  sound: Phaser.Sound.BaseSound;
+  gain: number;
+  tween: Phaser.Tweens.Tween | null;
+}
+
+/**
+ * カテゴリ間のダッキングのルール
+ */
+interface DuckingRule {
+  trigger: string;
+  target: string;
+  amount: number;
+  attack: number;
+  release: number;
+}
+
+/**
+ * ダッキングされるカテゴリの状態（gain はカテゴリの音声に掛ける音量）
+ */
+interface DuckingState {
+  gain: number;
+  /** フェード後の gain */
+  target: number;
+  /** 現在有効なルール */
+  rule: DuckingRule | null;
+  tween: Phaser.Tweens.Tween | null;
+}
+
+/**
+ * 再生中のプレイリスト
+ */
+interface PlaylistState<K extends string> {
+  tracks: K[];
+  /** 現在の周の曲順 */
+  order: K[];
+  position: number;
+  /** 続けて再生できなかった曲の数 */
+  failures: number;
+  options: BGMPlaylistOptions;
+}
+
 /**
  * 音声カテゴリー設定
  */
@@ -575,11 +1909,58 @@ export interface SoundCategoryConfig {
   volume?: number;
   loop?: boolean;
   maxConcurrent?: number;
+  /** 上限に達したときに最も古い音声を止めるか（stealPolicy 未指定時に "oldest" として扱う） */
   interrupts?: boolean;
+  /** 上限に達したときに止める音声の選び方（デフォルト: interrupts に応じて "oldest" か "reject"） */
+  stealPolicy?: VoiceStealPolicy;
+  /** 止めた音声・再生できない音声を仮想ボイスにするか（デフォルト: false） */
+  virtualize?: boolean;
   fadeInDuration?: number;
   fadeOutDuration?: number;
 }
 
+/**
+ * 同時再生数の上限に達したときに止める音声の選び方
+ * oldest: 最も古い、quietest: 最も音量が小さい、lowestPriority: 最も優先度が低い、
+ * farthest: リスナーから最も遠い、reject: 止めずに新しい音声を再生しない
+ */
+export type VoiceStealPolicy =
+  | "oldest"
+  | "quietest"
+  | "lowestPriority"
+  | "farthest"
+  | "reject";
+
+/**
+ * 音声の位置
+ */
+export interface SoundPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * 再生時のボイス設定
+ */
+export interface VoiceOptions {
+  /** 優先度（大きいほど優先、デフォルト: 登録時の priority、未設定なら 0） */
+  priority?: number;
+  /** 音声の位置 */
+  position?: SoundPosition;
+}
+
+/**
+ * ダッキングの設定
+ */
+export interface DuckingOptions {
+  /** 音量を下げる割合（0〜1、デフォルト: 0.5。0.6 なら元の 40% にする） */
+  amount?: number;
+  /** 下げるときのフェードの長さ（ミリ秒、デフォルト: 200） */
+  attack?: number;
+  /** 戻すときのフェードの長さ（ミリ秒、デフォルト: 800） */
+  release?: number;
+}
+
 /**
  * 音声設定
  */
@@ -590,18 +1971,140 @@ export interface SoundConfig {
   seek?: number;
   loop?: boolean;
   delay?: number;
+  /** 優先度（大きいほど優先、デフォルト: 0）。優先度の高い音声は低い音声に止められない */
+  priority?: number;
+  /** ループ区間の開始位置（秒）。0 より大きい場合は先頭からここまでをイントロとして1回だけ再生する */
+  loopStart?: number;
+  /** ループ区間の終了位置（秒、デフォルト: 音声の終わり） */
+  loopEnd?: number;
 }
 
 /**
  * 音声登録情報
  */
-export interface SoundRegistration {
-  key: string;
+export interface SoundRegistration<K extends string = string> {
+  key: K;
   category: string;
   path: string | string[];
   config?: SoundConfig;
 }
 
+/**
+ * オーディオスプライトのマーカー登録情報
+ */
+export interface AudioSpriteMarkerRegistration<K extends string = string> {
+  /** 再生時に指定する音声キー */
+  key: K;
+  category: string;
+  /** JSON の spritemap 上のマーカー名（デフォルト: key） */
+  marker?: string;
+  config?: SoundConfig;
+}
+
+/**
+ * 組み込みのフェードカーブ
+ */
+export type FadeCurveName = "linear" | "equalPower" | "smooth";
+
+/**
+ * フェードカーブ（組み込みの名前、または 0〜1 の進捗から 0〜1 の音量の割合を返す関数）
+ */
+export type FadeCurve = FadeCurveName | ((t: number) => number);
+
+/**
+ * BGM の切り替え方法
+ */
+export interface BGMTransition {
+  /** フェードの長さ（ミリ秒、デフォルト: カテゴリの fadeInDuration・fadeOutDuration） */
+  duration?: number;
+  /** フェードカーブ（デフォルト: "equalPower"） */
+  curve?: FadeCurve;
+}
+
+/**
+ * プレイリストの曲順
+ * sequential: 指定順、shuffle: 1周ごとに並べ替え、noRepeat: shuffle に加えて周の変わり目でも同じ曲を続けない
+ */
+export type BGMPlaylistMode = "sequential" | "shuffle" | "noRepeat";
+
+/**
+ * プレイリストの設定
+ */
+export interface BGMPlaylistOptions {
+  /** 曲順（デフォルト: "sequential"） */
+  mode?: BGMPlaylistMode;
+  /** 最後の曲の後に先頭から繰り返すか（デフォルト: false） */
+  loop?: boolean;
+  /** 曲の終わりの何ミリ秒前から次の曲へクロスフェードするか（デフォルト: 0、曲の終わりで切り替え） */
+  crossfade?: number;
+  /** クロスフェードのカーブ（デフォルト: "equalPower"） */
+  curve?: FadeCurve;
+  /** 各曲の再生設定（loop は常に false） */
+  config?: Phaser.Types.Sound.SoundConfig;
+}
+
+/**
+ * レイヤー音楽のレイヤー
+ */
+export interface MusicLayer<K extends string = string> {
+  /** ステムの音声キー（全てのステムは同じ長さにする） */
+  key: K;
+  /** 鳴り始める強さ（デフォルト: 0、常に鳴る） */
+  enterAt?: number;
+  /** 最大音量になる強さ（デフォルト: enterAt、enterAt で切り替わる） */
+  fullAt?: number;
+  /** 最大音量（デフォルト: 1） */
+  volume?: number;
+}
+
+/**
+ * レイヤー音楽の状態（強さ、またはレイヤーごとの音量 0〜1）
+ */
+export type MusicState<K extends string = string> =
+  | number
+  | { [key in K]?: number };
+
+/**
+ * レイヤー音楽の設定
+ */
+export interface LayeredMusicOptions<K extends string = string> {
+  /** setMusicState で使う名前付きの状態 */
+  states?: { [name: string]: MusicState<K> };
+  /** レイヤーのフェードの長さ（ミリ秒、デフォルト: カテゴリの fadeInDuration、未設定なら 1000） */
+  fadeDuration?: number;
+  /** レイヤーのフェードカーブ（デフォルト: "equalPower"） */
+  curve?: FadeCurve;
+}
+
+/**
+ * サウンドマネージャーのイベント
+ */
+export interface SoundManagerEvents<K extends string = string> {
+  /** 再生中の BGM が変わった（停止時は current が null） */
+  trackChange: BGMTrackChangeEvent<K>;
+  /** プレイリストを最後の曲まで再生した（loop 指定時は1周ごとに発行） */
+  playlistEnd: BGMPlaylistEndEvent<K>;
+}
+
+/**
+ * BGM の切り替えイベント
+ */
+export interface BGMTrackChangeEvent<K extends string = string> {
+  previous: K | null;
+  current: K | null;
+  /** プレイリストによる切り替えか */
+  fromPlaylist: boolean;
+}
+
+/**
+ * プレイリストの終了イベント
+ */
+export interface BGMPlaylistEndEvent<K extends string = string> {
+  tracks: K[];
+  /** 先頭から繰り返すか */
+  loop: boolean;
+}
+
 /**
  * サウンドマネージャー設定
  */
@@ -619,16 +2122,33 @@ export interface SoundManagerDebugInfo {
   isMuted: boolean;
   currentBGM: string | null;
   isBGMPlaying: boolean;
+  currentMusic: string | null;
+  musicIntensity: number;
+  voices: {
+    /** 聞こえている音声の数 */
+    active: number;
+    /** 仮想ボイスの数 */
+    virtual: number;
+    /** 全体の同時再生数の上限 */
+    max: number | null;
+    /** 上限のために止めた（仮想ボイスにしたものを含む）音声の累計 */
+    stolen: number;
+    /** 仮想ボイスにした音声の累計 */
+    virtualized: number;
+  };
   totalRegisteredSounds: number;
   categories: { [key: string]: any };
 }
 
 /**
  * サウンドマネージャーのファクトリー関数
+ * AssetManager のレジストリ型から音声キーの型を引き継ぐ
  */
-export function createSoundManager(
+export function createSoundManager<
+  R extends AssetRegistryMap<R> = DefaultAssetRegistryMap
+>(
   scene: Phaser.Scene,
-  assetManager?: AssetManager
-): SoundManager {
+  assetManager?: AssetManager<R>
+): SoundManager<AssetKey<R, AssetType.AUDIO>, R> {
   return new SoundManager(scene, assetManager);
 }
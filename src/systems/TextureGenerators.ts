@@ -0,0 +1,331 @@
+import type * as Phaser from "phaser";
+import { ColorKey, ColorUtils } from "../const/ColorDef";
+
+/**
+ * 生成テクスチャを作成する
+ * Graphics に描画して generateTexture でテクスチャにする。同じキーのテクスチャは置き換える。
+ * nineSlice の場合は伸縮しない縁の幅をテクスチャの customData.nineSlice に記録する
+ *
+ * 使用例:
+ * ```typescript
+ * // 通常は AssetManager.registerGeneratedTexture 経由で読み込み時に作成される
+ * generateTexture(this, 'panel', 'nineSlice', {
+ *   width: 96,
+ *   height: 96,
+ *   fill: 'DARK_CYAN',
+ *   stroke: 'WHITE',
+ *   radius: 12,
+ * });
+ * this.add.nineslice(400, 300, 'panel', undefined, 320, 200, 16, 16, 16, 16);
+ * ```
+ */
+export function generateTexture<P extends GeneratedTextureParams>(
+  scene: Phaser.Scene,
+  key: string,
+  generator: TextureGenerator<P>,
+  params: P
+): void {
+  const draw =
+    typeof generator === "function"
+      ? generator
+      : (TEXTURE_GENERATORS[generator] as TextureGeneratorFunction<P>);
+  if (!draw) {
+    throw new Error(`Unknown texture generator '${generator}'`);
+  }
+  if (!(params.width > 0) || !(params.height > 0)) {
+    throw new Error(
+      `Invalid texture size ${params.width}x${params.height} for '${key}'`
+    );
+  }
+
+  const graphics = scene.make.graphics({}, false);
+  try {
+    draw(graphics, params, scene);
+    if (scene.textures.exists(key)) {
+      scene.textures.remove(key);
+    }
+    graphics.generateTexture(key, params.width, params.height);
+  } finally {
+    graphics.destroy();
+  }
+
+  if (generator === "nineSlice") {
+    const slice = params.slice ?? getNineSliceInset(params);
+    const customData = scene.textures.get(key).customData as {
+      nineSlice?: NineSliceInsets;
+    };
+    customData.nineSlice = {
+      left: slice,
+      right: slice,
+      top: slice,
+      bottom: slice,
+    };
+  }
+}
+
+/**
+ * 組み込みのテクスチャ生成関数
+ */
+export const TEXTURE_GENERATORS: {
+  [name in TextureGeneratorName]: TextureGeneratorFunction;
+} = {
+  rect: (graphics, params) => {
+    const inset = getStrokeWidth(params) / 2;
+    applyFillStyle(graphics, params);
+    graphics.fillRect(0, 0, params.width, params.height);
+    if (applyLineStyle(graphics, params)) {
+      graphics.strokeRect(
+        inset,
+        inset,
+        params.width - inset * 2,
+        params.height - inset * 2
+      );
+    }
+  },
+
+  roundedRect: (graphics, params) => drawRoundedRect(graphics, params, 8),
+
+  circle: (graphics, params) => {
+    const strokeWidth = getStrokeWidth(params);
+    const centerX = params.width / 2;
+    const centerY = params.height / 2;
+    applyFillStyle(graphics, params);
+    graphics.fillEllipse(centerX, centerY, params.width, params.height);
+    if (applyLineStyle(graphics, params)) {
+      graphics.strokeEllipse(
+        centerX,
+        centerY,
+        params.width - strokeWidth,
+        params.height - strokeWidth
+      );
+    }
+  },
+
+  gradient: (graphics, params) => {
+    const colors = (params.colors ?? ["BLACK", "WHITE"]).map(toColorNumber);
+    const alpha = params.fillAlpha ?? 1;
+    const { width, height } = params;
+
+    if (params.direction === "radial") {
+      // 外側から内側へ同心円を重ねる
+      const radius = Math.ceil(Math.max(width, height) / 2);
+      for (let r = radius; r > 0; r--) {
+        graphics.fillStyle(sampleGradient(colors, 1 - r / radius), alpha);
+        graphics.fillEllipse(
+          width / 2,
+          height / 2,
+          (width * r) / radius,
+          (height * r) / radius
+        );
+      }
+      return;
+    }
+
+    // Canvas 描画でも使えるよう、1ピクセル幅の帯で描く
+    const horizontal = params.direction === "horizontal";
+    const steps = Math.ceil(horizontal ? width : height);
+    for (let i = 0; i < steps; i++) {
+      graphics.fillStyle(
+        sampleGradient(colors, steps > 1 ? i / (steps - 1) : 0),
+        alpha
+      );
+      if (horizontal) {
+        graphics.fillRect(i, 0, 1, height);
+      } else {
+        graphics.fillRect(0, i, width, 1);
+      }
+    }
+  },
+
+  nineSlice: (graphics, params) => drawRoundedRect(graphics, params, 8),
+
+  noise: (graphics, params) => {
+    const colors = (params.colors ?? ["BLACK", "WHITE"]).map(toColorNumber);
+    const cellSize = Math.max(1, params.cellSize ?? 1);
+    const random = createRandom(params.seed ?? 1);
+    const alpha = params.fillAlpha ?? 1;
+
+    for (let y = 0; y < params.height; y += cellSize) {
+      for (let x = 0; x < params.width; x += cellSize) {
+        graphics.fillStyle(sampleGradient(colors, random()), alpha);
+        graphics.fillRect(x, y, cellSize, cellSize);
+      }
+    }
+  },
+};
+
+/**
+ * 角丸の矩形を描画（roundedRect・nineSlice 共通）
+ */
+const drawRoundedRect = (
+  graphics: Phaser.GameObjects.Graphics,
+  params: GeneratedTextureParams,
+  defaultRadius: number
+): void => {
+  const inset = getStrokeWidth(params) / 2;
+  const width = params.width - inset * 2;
+  const height = params.height - inset * 2;
+  const radius = Math.min(
+    params.radius ?? defaultRadius,
+    width / 2,
+    height / 2
+  );
+  applyFillStyle(graphics, params);
+  graphics.fillRoundedRect(inset, inset, width, height, radius);
+  if (applyLineStyle(graphics, params)) {
+    graphics.strokeRoundedRect(inset, inset, width, height, radius);
+  }
+};
+
+/**
+ * nineSlice の縁の幅（角丸と枠線が伸縮しない大きさ）
+ */
+const getNineSliceInset = (params: GeneratedTextureParams): number =>
+  Math.ceil(Math.max(params.radius ?? 8, getStrokeWidth(params)));
+
+/**
+ * 枠線の太さ（stroke を指定した場合のデフォルト: 2）
+ */
+const getStrokeWidth = (params: GeneratedTextureParams): number =>
+  params.stroke !== undefined ? params.strokeWidth ?? 2 : 0;
+
+const applyFillStyle = (
+  graphics: Phaser.GameObjects.Graphics,
+  params: GeneratedTextureParams
+): void => {
+  graphics.fillStyle(toColorNumber(params.fill ?? "WHITE"), params.fillAlpha);
+};
+
+/**
+ * 枠線のスタイルを設定（枠線を描く場合は true）
+ */
+const applyLineStyle = (
+  graphics: Phaser.GameObjects.Graphics,
+  params: GeneratedTextureParams
+): boolean => {
+  if (params.stroke === undefined) {
+    return false;
+  }
+  graphics.lineStyle(getStrokeWidth(params), toColorNumber(params.stroke));
+  return true;
+};
+
+/**
+ * ColorDef のキー・"#RRGGBB"・数値を数値の色に変換
+ */
+const toColorNumber = (color: TextureColor): number => {
+  if (typeof color === "number") {
+    return color;
+  }
+  return ColorUtils.hasColor(color)
+    ? ColorUtils.getColorNumber(color)
+    : ColorUtils.hexToNumber(color);
+};
+
+/**
+ * 均等に並べた色の t（0〜1）の位置の色を取得
+ */
+const sampleGradient = (colors: number[], t: number): number => {
+  if (colors.length === 1) {
+    return colors[0];
+  }
+  const position = Math.min(Math.max(t, 0), 1) * (colors.length - 1);
+  const index = Math.min(Math.floor(position), colors.length - 2);
+  return lerpColor(colors[index], colors[index + 1], position - index);
+};
+
+const lerpColor = (from: number, to: number, t: number): number => {
+  const channel = (shift: number) => {
+    const a = (from >> shift) & 0xff;
+    const b = (to >> shift) & 0xff;
+    return Math.round(a + (b - a) * t) << shift;
+  };
+  return channel(16) | channel(8) | channel(0);
+};
+
+/**
+ * シード付きの乱数生成器（mulberry32）
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * 色の指定（ColorDef のキー・"#RRGGBB"・数値）
+ */
+export type TextureColor = ColorKey | string | number;
+
+/**
+ * 組み込みのテクスチャ生成関数の名前
+ */
+export type TextureGeneratorName =
+  | "rect"
+  | "roundedRect"
+  | "circle"
+  | "gradient"
+  | "nineSlice"
+  | "noise";
+
+/**
+ * テクスチャ生成関数
+ * Graphics（シーンに追加されていない）に描画する。描画後の generateTexture は呼び出し側が行う
+ */
+export type TextureGeneratorFunction<
+  P extends GeneratedTextureParams = GeneratedTextureParams
+> = (
+  graphics: Phaser.GameObjects.Graphics,
+  params: P,
+  scene: Phaser.Scene
+) => void;
+
+/**
+ * テクスチャの生成方法（組み込みの名前または生成関数）
+ */
+export type TextureGenerator<
+  P extends GeneratedTextureParams = GeneratedTextureParams
+> = TextureGeneratorName | TextureGeneratorFunction<P>;
+
+/**
+ * nineSlice で伸縮しない縁の幅
+ */
+export interface NineSliceInsets {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * テクスチャ生成のパラメーター
+ * 組み込みの生成関数が使わない項目は無視される。独自の生成関数は項目を追加して使える
+ */
+export interface GeneratedTextureParams {
+  width: number;
+  height: number;
+  /** 塗りつぶしの色（デフォルト: "WHITE"） */
+  fill?: TextureColor;
+  fillAlpha?: number;
+  /** 枠線の色（指定しない場合は枠線なし） */
+  stroke?: TextureColor;
+  /** 枠線の太さ（デフォルト: 2） */
+  strokeWidth?: number;
+  /** 角の半径（roundedRect・nineSlice、デフォルト: 8） */
+  radius?: number;
+  /** gradient・noise の色（デフォルト: 黒から白） */
+  colors?: TextureColor[];
+  /** gradient の向き（デフォルト: "vertical"） */
+  direction?: "vertical" | "horizontal" | "radial";
+  /** nineSlice の伸縮しない縁の幅（デフォルト: 角の半径と枠線の太さの大きい方） */
+  slice?: number;
+  /** noise の1マスの大きさ（デフォルト: 1） */
+  cellSize?: number;
+  /** noise の乱数シード（同じシードなら同じ模様、デフォルト: 1） */
+  seed?: number;
+}
@@ -0,0 +1,207 @@
+import { HeadlessEventEmitter } from "./HeadlessEventEmitter";
+
+/**
+ * Phaser.Cache.BaseCache の代わり
+ */
+export class HeadlessCache extends HeadlessEventEmitter {
+  readonly entries: Map<string, unknown> = new Map();
+
+  add(key: string, data: unknown): this {
+    this.entries.set(key, data);
+    this.emit("add", this, key, data);
+    return this;
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  exists(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  get(key: string): any {
+    return this.entries.get(key);
+  }
+
+  remove(key: string): this {
+    if (this.entries.has(key)) {
+      const data = this.entries.get(key);
+      this.entries.delete(key);
+      this.emit("remove", this, key, data);
+    }
+    return this;
+  }
+
+  getKeys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+}
+
+/**
+ * scene.cache（Phaser.Cache.CacheManager）の代わり
+ */
+export class HeadlessCacheManager {
+  readonly audio = new HeadlessCache();
+  readonly binary = new HeadlessCache();
+  readonly bitmapFont = new HeadlessCache();
+  readonly html = new HeadlessCache();
+  readonly json = new HeadlessCache();
+  readonly obj = new HeadlessCache();
+  readonly physics = new HeadlessCache();
+  readonly shader = new HeadlessCache();
+  readonly text = new HeadlessCache();
+  readonly tilemap = new HeadlessCache();
+  readonly video = new HeadlessCache();
+  readonly xml = new HeadlessCache();
+}
+
+/**
+ * Phaser.Textures.Frame の代わり
+ */
+export class HeadlessFrame {
+  readonly texture: HeadlessTexture;
+  readonly name: string | number;
+  readonly width: number;
+  readonly height: number;
+
+  constructor(
+    texture: HeadlessTexture,
+    name: string | number,
+    width: number,
+    height: number
+  ) {
+    this.texture = texture;
+    this.name = name;
+    this.width = width;
+    this.height = height;
+  }
+}
+
+/**
+ * Phaser.Textures.Texture の代わり
+ * 画像データは持たず、大きさとフレームのみを管理する
+ */
+export class HeadlessTexture {
+  key: string;
+  readonly source: { width: number; height: number }[];
+  readonly frames: { [name: string]: HeadlessFrame } = {};
+  readonly customData: { [key: string]: unknown } = {};
+  private manager: HeadlessTextureManager;
+
+  constructor(
+    manager: HeadlessTextureManager,
+    key: string,
+    width: number,
+    height: number
+  ) {
+    this.manager = manager;
+    this.key = key;
+    this.source = [{ width, height }];
+    this.add("__BASE", width, height);
+  }
+
+  get frameTotal(): number {
+    return Object.keys(this.frames).length;
+  }
+
+  add(name: string | number, width: number, height: number): HeadlessFrame {
+    const frame = new HeadlessFrame(this, name, width, height);
+    this.frames[name] = frame;
+    return frame;
+  }
+
+  has(name: string | number): boolean {
+    return name in this.frames;
+  }
+
+  get(name?: string | number): HeadlessFrame {
+    return (name !== undefined && this.frames[name]) || this.frames.__BASE;
+  }
+
+  getFrameNames(includeBase: boolean = false): string[] {
+    return Object.keys(this.frames).filter(
+      (name) => includeBase || name !== "__BASE"
+    );
+  }
+
+  destroy(): void {
+    this.manager.remove(this);
+  }
+}
+
+/**
+ * scene.textures（Phaser.Textures.TextureManager）の代わり
+ */
+export class HeadlessTextureManager extends HeadlessEventEmitter {
+  readonly list: { [key: string]: HeadlessTexture } = {};
+
+  /**
+   * テクスチャを作成（同じキーが存在する場合は null）
+   * frames にはフレーム名と大きさを指定する
+   */
+  create(
+    key: string,
+    width: number,
+    height: number,
+    frames: HeadlessFrameData[] = []
+  ): HeadlessTexture | null {
+    if (this.exists(key)) {
+      return null;
+    }
+    const texture = new HeadlessTexture(this, key, width, height);
+    frames.forEach((frame) =>
+      texture.add(frame.name, frame.width, frame.height)
+    );
+    this.list[key] = texture;
+    this.emit("addtexture", key, texture);
+    this.emit(`addtexture-${key}`, texture);
+    return texture;
+  }
+
+  exists(key: string): boolean {
+    return key in this.list;
+  }
+
+  get(key: string): HeadlessTexture {
+    return this.list[key] ?? this.getMissingTexture();
+  }
+
+  remove(key: string | HeadlessTexture): this {
+    const textureKey = typeof key === "string" ? key : key.key;
+    if (this.exists(textureKey)) {
+      delete this.list[textureKey];
+      this.emit("removetexture", textureKey);
+      this.emit(`removetexture-${textureKey}`);
+    }
+    return this;
+  }
+
+  renameTexture(currentKey: string, newKey: string): boolean {
+    const texture = this.list[currentKey];
+    if (!texture || this.exists(newKey)) {
+      return false;
+    }
+    texture.key = newKey;
+    this.list[newKey] = texture;
+    delete this.list[currentKey];
+    return true;
+  }
+
+  getTextureKeys(): string[] {
+    return Object.keys(this.list).filter((key) => !key.startsWith("__"));
+  }
+
+  private getMissingTexture(): HeadlessTexture {
+    return this.list.__MISSING ?? this.create("__MISSING", 32, 32)!;
+  }
+}
+
+/**
+ * テクスチャのフレームの指定
+ */
+export interface HeadlessFrameData {
+  name: string | number;
+  width: number;
+  height: number;
+}
@@ -0,0 +1,93 @@
+/**
+ * Phaser.Events.EventEmitter（eventemitter3）と同じ呼び出し方のイベントエミッター
+ * テスト用のシーン・ローダー・サウンドで使う
+ */
+export class HeadlessEventEmitter {
+  private listeners: Map<string | symbol, HeadlessListener[]> = new Map();
+
+  on(event: string | symbol, fn: Function, context?: unknown): this {
+    return this.addEntry(event, { fn, context, once: false });
+  }
+
+  addListener(event: string | symbol, fn: Function, context?: unknown): this {
+    return this.on(event, fn, context);
+  }
+
+  once(event: string | symbol, fn: Function, context?: unknown): this {
+    return this.addEntry(event, { fn, context, once: true });
+  }
+
+  /**
+   * リスナーを解除（fn を省略した場合はイベントの全リスナー）
+   */
+  off(event: string | symbol, fn?: Function, context?: unknown): this {
+    if (!fn) {
+      this.listeners.delete(event);
+      return this;
+    }
+    const remaining = (this.listeners.get(event) ?? []).filter(
+      (listener) =>
+        listener.fn !== fn ||
+        (context !== undefined && listener.context !== context)
+    );
+    if (remaining.length > 0) {
+      this.listeners.set(event, remaining);
+    } else {
+      this.listeners.delete(event);
+    }
+    return this;
+  }
+
+  removeListener(
+    event: string | symbol,
+    fn?: Function,
+    context?: unknown
+  ): this {
+    return this.off(event, fn, context);
+  }
+
+  removeAllListeners(event?: string | symbol): this {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+    return this;
+  }
+
+  emit(event: string | symbol, ...args: unknown[]): boolean {
+    const listeners = this.listeners.get(event);
+    if (!listeners || listeners.length === 0) {
+      return false;
+    }
+    for (const listener of [...listeners]) {
+      if (listener.once) {
+        this.off(event, listener.fn, listener.context);
+      }
+      listener.fn.apply(listener.context, args);
+    }
+    return true;
+  }
+
+  listenerCount(event: string | symbol): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  eventNames(): (string | symbol)[] {
+    return Array.from(this.listeners.keys());
+  }
+
+  private addEntry(event: string | symbol, listener: HeadlessListener): this {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+}
+
+/**
+ * 登録されたリスナー
+ */
+interface HeadlessListener {
+  fn: Function;
+  context: unknown;
+  once: boolean;
+}
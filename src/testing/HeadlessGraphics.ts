@@ -0,0 +1,112 @@
+import { HeadlessTextureManager } from "./HeadlessCache";
+
+/**
+ * Phaser.GameObjects.Graphics の代わり
+ * 描画はせず、呼び出された描画命令を commands に記録する。generateTexture で同じ大きさのテクスチャを作る
+ */
+export class HeadlessGraphics {
+  readonly commands: HeadlessGraphicsCommand[] = [];
+  active: boolean = true;
+  private textures: HeadlessTextureManager;
+
+  constructor(textures: HeadlessTextureManager) {
+    this.textures = textures;
+  }
+
+  fillStyle(color: number, alpha: number = 1): this {
+    return this.record("fillStyle", color, alpha);
+  }
+
+  lineStyle(lineWidth: number, color: number, alpha: number = 1): this {
+    return this.record("lineStyle", lineWidth, color, alpha);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): this {
+    return this.record("fillRect", x, y, width, height);
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number): this {
+    return this.record("strokeRect", x, y, width, height);
+  }
+
+  fillRoundedRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    radius: number = 20
+  ): this {
+    return this.record("fillRoundedRect", x, y, width, height, radius);
+  }
+
+  strokeRoundedRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    radius: number = 20
+  ): this {
+    return this.record("strokeRoundedRect", x, y, width, height, radius);
+  }
+
+  fillCircle(x: number, y: number, radius: number): this {
+    return this.record("fillCircle", x, y, radius);
+  }
+
+  strokeCircle(x: number, y: number, radius: number): this {
+    return this.record("strokeCircle", x, y, radius);
+  }
+
+  fillEllipse(x: number, y: number, width: number, height: number): this {
+    return this.record("fillEllipse", x, y, width, height);
+  }
+
+  strokeEllipse(x: number, y: number, width: number, height: number): this {
+    return this.record("strokeEllipse", x, y, width, height);
+  }
+
+  fillTriangle(
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number
+  ): this {
+    return this.record("fillTriangle", x0, y0, x1, y1, x2, y2);
+  }
+
+  lineBetween(x1: number, y1: number, x2: number, y2: number): this {
+    return this.record("lineBetween", x1, y1, x2, y2);
+  }
+
+  clear(): this {
+    this.commands.length = 0;
+    return this;
+  }
+
+  /**
+   * 描画内容のテクスチャを作成（既に存在する場合は何もしない）
+   */
+  generateTexture(key: string, width: number, height: number): this {
+    this.textures.create(key, width, height);
+    return this;
+  }
+
+  destroy(): void {
+    this.active = false;
+  }
+
+  private record(name: string, ...args: number[]): this {
+    this.commands.push({ name, args });
+    return this;
+  }
+}
+
+/**
+ * 記録された描画命令
+ */
+export interface HeadlessGraphicsCommand {
+  name: string;
+  args: number[];
+}
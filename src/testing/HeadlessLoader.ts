@@ -0,0 +1,764 @@
+import {
+  HeadlessCacheManager,
+  HeadlessFrameData,
+  HeadlessTextureManager,
+} from "./HeadlessCache";
+import { HeadlessEventEmitter } from "./HeadlessEventEmitter";
+import { TestClock } from "./TestClock";
+
+/**
+ * scene.load（Phaser.Loader.LoaderPlugin）の代わり
+ * ネットワークを使わず、respond で登録した応答（遅延・失敗・データ）に従ってファイルを読み込んだことにする。
+ * イベントの種類と順序（load → filecomplete → progress、loaderror、complete）は Phaser に合わせている
+ *
+ * 使用例:
+ * ```typescript
+ * scene.load
+ *   .respond('assets/enemies.json', { data: { enemies: [] }, delay: 200 })
+ *   .respond('assets/bgm.mp3', { duration: 30 })
+ *   // 1回目は失敗し、2回目以降は成功する
+ *   .respond('assets/player.png', [{ status: 500 }, { width: 64, height: 64 }])
+ *   .respond(/\.png$/, { width: 32, height: 32 });
+ * ```
+ */
+export class HeadlessLoader extends HeadlessEventEmitter {
+  readonly list: HeadlessFileSet = new HeadlessFileSet();
+  readonly inflight: HeadlessFileSet = new HeadlessFileSet();
+  /** 読み込みを開始したファイルの URL（開始順） */
+  readonly requests: string[] = [];
+  maxParallelDownloads: number = 32;
+  baseURL: string = "";
+  path: string = "";
+  prefix: string = "";
+  progress: number = 0;
+  totalToLoad: number = 0;
+  totalComplete: number = 0;
+  totalFailed: number = 0;
+  private state: "idle" | "loading" | "complete" = "idle";
+  private clock: TestClock;
+  private cache: HeadlessCacheManager;
+  private textures: HeadlessTextureManager;
+  private audioFormats: { [format: string]: boolean };
+  private responses: ResponseRule[] = [];
+  private defaultResponse: HeadlessFileResponse = {};
+  private responseCounts: Map<ResponseRule, number> = new Map();
+
+  constructor(
+    clock: TestClock,
+    cache: HeadlessCacheManager,
+    textures: HeadlessTextureManager,
+    audioFormats: { [format: string]: boolean }
+  ) {
+    super();
+    this.clock = clock;
+    this.cache = cache;
+    this.textures = textures;
+    this.audioFormats = audioFormats;
+  }
+
+  /**
+   * URL に対する応答を登録
+   * 文字列はクエリを除いた URL との完全一致、正規表現は URL 全体に対して判定し、後に登録したものを優先する。
+   * 配列を指定した場合は読み込みごとに順に使い、最後の応答を繰り返す
+   */
+  respond(
+    url: string | RegExp,
+    response: HeadlessFileResponse | HeadlessFileResponse[]
+  ): this {
+    this.responses.unshift({
+      url,
+      responses: Array.isArray(response) ? response : [response],
+    });
+    return this;
+  }
+
+  /**
+   * respond で登録していない URL に使う応答を設定（デフォルト: 遅延なしで成功）
+   */
+  setDefaultResponse(response: HeadlessFileResponse): this {
+    this.defaultResponse = response;
+    return this;
+  }
+
+  setBaseURL(url: string = ""): this {
+    this.baseURL = url && !url.endsWith("/") ? `${url}/` : url;
+    return this;
+  }
+
+  setPath(path: string = ""): this {
+    this.path = path && !path.endsWith("/") ? `${path}/` : path;
+    return this;
+  }
+
+  setPrefix(prefix: string = ""): this {
+    this.prefix = prefix;
+    return this;
+  }
+
+  isLoading(): boolean {
+    return this.state === "loading";
+  }
+
+  isReady(): boolean {
+    return this.state !== "loading";
+  }
+
+  /**
+   * 追加されたファイルの読み込みを開始（読み込み中は何もしない）
+   */
+  start(): void {
+    if (!this.isReady()) {
+      return;
+    }
+    this.progress = 0;
+    this.totalFailed = 0;
+    this.totalComplete = 0;
+    this.totalToLoad = this.list.size;
+    this.emit("start", this);
+
+    if (this.list.size === 0) {
+      this.loadComplete();
+      return;
+    }
+    this.state = "loading";
+    this.inflight.clear();
+    this.updateProgress();
+    this.checkLoadQueue();
+  }
+
+  image(key: string, url?: string | string[]): this {
+    return this.addFile(key, "image", toURL(url, key, "png"), (file) =>
+      this.addTexture(key, file.response)
+    );
+  }
+
+  svg(
+    key: string,
+    url?: string,
+    svgConfig?: { width?: number; height?: number; scale?: number }
+  ): this {
+    return this.addFile(key, "svg", toURL(url, key, "svg"), (file) => {
+      const scale = svgConfig?.scale ?? 1;
+      this.addTexture(key, {
+        ...file.response,
+        width: svgConfig?.width ?? (file.response.width ?? 32) * scale,
+        height: svgConfig?.height ?? (file.response.height ?? 32) * scale,
+      });
+    });
+  }
+
+  spritesheet(
+    key: string,
+    url: string | undefined,
+    frameConfig: {
+      frameWidth: number;
+      frameHeight?: number;
+      startFrame?: number;
+      endFrame?: number;
+    }
+  ): this {
+    return this.addFile(key, "spritesheet", toURL(url, key, "png"), (file) => {
+      const width = file.response.width ?? frameConfig.frameWidth;
+      const height =
+        file.response.height ??
+        frameConfig.frameHeight ??
+        frameConfig.frameWidth;
+      const frameHeight = frameConfig.frameHeight ?? frameConfig.frameWidth;
+      const total =
+        Math.floor(width / frameConfig.frameWidth) *
+        Math.floor(height / frameHeight);
+      const start = frameConfig.startFrame ?? 0;
+      const end = Math.min(total - 1, frameConfig.endFrame ?? total - 1);
+      const frames: HeadlessFrameData[] = [];
+      for (let index = start; index <= end; index++) {
+        frames.push({
+          name: index,
+          width: frameConfig.frameWidth,
+          height: frameHeight,
+        });
+      }
+      this.textures.create(key, width, height, file.response.frames ?? frames);
+    });
+  }
+
+  atlas(key: string, textureURL?: string | string[], atlasURL?: string): this {
+    return this.addMultiFile(
+      key,
+      "atlas",
+      [
+        { type: "image", url: toURL(textureURL, key, "png") },
+        { type: "json", url: toURL(atlasURL, key, "json") },
+      ],
+      ([image, json]) =>
+        this.addTexture(key, image.response, readAtlasFrames(json.data))
+    );
+  }
+
+  multiatlas(key: string, atlasURL?: string): this {
+    return this.addFile(
+      key,
+      "multiatlas",
+      toURL(atlasURL, key, "json"),
+      (file) => this.addTexture(key, file.response, readAtlasFrames(file.data))
+    );
+  }
+
+  aseprite(
+    key: string,
+    textureURL?: string | string[],
+    atlasURL?: string
+  ): this {
+    return this.addMultiFile(
+      key,
+      "aseprite",
+      [
+        { type: "image", url: toURL(textureURL, key, "png") },
+        { type: "json", url: toURL(atlasURL, key, "json") },
+      ],
+      ([image, json]) => {
+        this.addTexture(key, image.response, readAtlasFrames(json.data));
+        this.cache.json.add(key, json.data);
+      }
+    );
+  }
+
+  bitmapFont(
+    key: string,
+    textureURL?: string | string[],
+    fontDataURL?: string
+  ): this {
+    return this.addMultiFile(
+      key,
+      "bitmapFont",
+      [
+        { type: "image", url: toURL(textureURL, key, "png") },
+        { type: "xml", url: toURL(fontDataURL, key, "xml") },
+      ],
+      ([image, xml]) => {
+        this.addTexture(key, image.response);
+        this.cache.bitmapFont.add(key, {
+          data: xml.data,
+          texture: key,
+          frame: null,
+        });
+      }
+    );
+  }
+
+  /**
+   * 音声ファイルを追加
+   * Phaser と同様に、端末が再生できる形式の URL がない場合は追加しない
+   */
+  audio(key: string, urls?: string | string[]): this {
+    const url = this.findPlayableAudio(urls ?? `${key}.mp3`);
+    if (!url) {
+      console.warn(`No audio URLs for "${key}" can play on this device`);
+      return this;
+    }
+    return this.addFile(key, "audio", url, (file) =>
+      this.cache.audio.add(key, readAudioData(file))
+    );
+  }
+
+  audioSprite(
+    key: string,
+    jsonURL: string,
+    audioURL?: string | string[]
+  ): this {
+    const url = this.findPlayableAudio(audioURL ?? `${key}.mp3`);
+    if (!url) {
+      console.warn(`No audio URLs for "${key}" can play on this device`);
+      return this;
+    }
+    return this.addMultiFile(
+      key,
+      "audioSprite",
+      [
+        { type: "json", url: jsonURL },
+        { type: "audio", url },
+      ],
+      ([json, audio]) => {
+        this.cache.json.add(key, json.data);
+        this.cache.audio.add(key, readAudioData(audio));
+      }
+    );
+  }
+
+  video(key: string, urls?: string | string[], noAudio?: boolean): this {
+    // Phaser と同様に要素ではなく URL をキャッシュする
+    return this.addFile(key, "video", toURL(urls, key, "mp4"), (file) =>
+      this.cache.video.add(
+        key,
+        file.response.data ?? { url: file.src, noAudio, crossOrigin: undefined }
+      )
+    );
+  }
+
+  json(key: string, url?: string, dataKey?: string): this {
+    return this.addFile(key, "json", toURL(url, key, "json"), (file) =>
+      this.cache.json.add(
+        key,
+        dataKey ? getValue(file.data, dataKey) : file.data
+      )
+    );
+  }
+
+  xml(key: string, url?: string): this {
+    return this.addFile(key, "xml", toURL(url, key, "xml"), (file) =>
+      this.cache.xml.add(key, file.data)
+    );
+  }
+
+  text(key: string, url?: string): this {
+    return this.addFile(key, "text", toURL(url, key, "txt"), (file) =>
+      this.cache.text.add(key, file.data)
+    );
+  }
+
+  html(key: string, url?: string): this {
+    return this.addFile(key, "html", toURL(url, key, "html"), (file) =>
+      this.cache.html.add(key, file.data)
+    );
+  }
+
+  glsl(key: string, url?: string): this {
+    return this.addFile(key, "glsl", toURL(url, key, "glsl"), (file) =>
+      this.cache.shader.add(key, file.data)
+    );
+  }
+
+  binary(
+    key: string,
+    url?: string,
+    dataType?: new (data: ArrayBuffer) => unknown
+  ): this {
+    return this.addFile(key, "binary", toURL(url, key, "bin"), (file) => {
+      const buffer =
+        file.response.data instanceof ArrayBuffer
+          ? file.response.data
+          : new ArrayBuffer(file.bytesTotal);
+      this.cache.binary.add(key, dataType ? new dataType(buffer) : buffer);
+    });
+  }
+
+  tilemapTiledJSON(key: string, url?: string): this {
+    return this.addFile(key, "tilemapJSON", toURL(url, key, "json"), (file) =>
+      this.cache.tilemap.add(key, { format: 1, data: file.data })
+    );
+  }
+
+  tilemapCSV(key: string, url?: string): this {
+    return this.addFile(key, "tilemapCSV", toURL(url, key, "csv"), (file) =>
+      this.cache.tilemap.add(key, { format: 0, data: file.data })
+    );
+  }
+
+  /**
+   * ファイルを1つ追加
+   */
+  private addFile(
+    key: string,
+    type: string,
+    url: string,
+    addToCache: (file: HeadlessFile) => void
+  ): this {
+    const file = new HeadlessFile(this, key, type, url, this.resolveURL(url));
+    file.onComplete = () => {
+      addToCache(file);
+      this.emit("filecomplete", key, type, file.data);
+      this.emit(`filecomplete-${type}-${key}`, key, type, file.data);
+    };
+    this.queueFile(file);
+    return this;
+  }
+
+  /**
+   * 複数ファイルからなるアセット（アトラスなど）を追加
+   * 全てのファイルを読み込めた時点でキャッシュに追加する
+   */
+  private addMultiFile(
+    key: string,
+    type: string,
+    parts: { type: string; url: string }[],
+    addToCache: (files: HeadlessFile[]) => void
+  ): this {
+    const multiFile: HeadlessMultiFile = { key, type, files: [], failed: 0 };
+    let pending = parts.length;
+    for (const part of parts) {
+      const file = new HeadlessFile(
+        this,
+        key,
+        part.type,
+        part.url,
+        this.resolveURL(part.url)
+      );
+      file.multiFile = multiFile;
+      file.onComplete = () => {
+        if (--pending > 0 || multiFile.failed > 0) {
+          return;
+        }
+        addToCache(multiFile.files);
+        this.emit("filecomplete", key, type, multiFile.files[0].data);
+        this.emit(
+          `filecomplete-${type}-${key}`,
+          key,
+          type,
+          multiFile.files[0].data
+        );
+      };
+      multiFile.files.push(file);
+      this.queueFile(file);
+    }
+    return this;
+  }
+
+  /**
+   * ファイルを待機中の一覧に追加
+   * 読み込み中に追加された場合は Phaser と同様に同じ読み込みの中で扱う
+   */
+  private queueFile(file: HeadlessFile): void {
+    this.list.set(file);
+    if (this.state === "loading") {
+      this.totalToLoad++;
+      this.checkLoadQueue();
+    }
+  }
+
+  /**
+   * 同時読み込み数の上限まで、待機中のファイルの読み込みを開始
+   */
+  private checkLoadQueue(): void {
+    for (const file of this.list.getArray()) {
+      if (this.inflight.size >= this.maxParallelDownloads) {
+        return;
+      }
+      this.list.delete(file);
+      this.inflight.set(file);
+      this.requests.push(file.src);
+      file.load(this.clock, this.getResponse(file.src));
+    }
+  }
+
+  /**
+   * ファイルの読み込みが終わった（HeadlessFile から呼ばれる）
+   */
+  fileDone(file: HeadlessFile, success: boolean): void {
+    this.inflight.delete(file);
+    if (success) {
+      this.emit("load", file);
+      file.onComplete?.();
+      this.totalComplete++;
+    } else {
+      if (file.multiFile) {
+        file.multiFile.failed++;
+      }
+      this.emit("loaderror", file);
+      this.totalFailed++;
+    }
+    this.updateProgress();
+
+    if (this.state !== "loading") {
+      return;
+    }
+    if (this.list.size === 0 && this.inflight.size === 0) {
+      this.loadComplete();
+    } else {
+      this.checkLoadQueue();
+    }
+  }
+
+  private updateProgress(): void {
+    this.progress =
+      this.totalToLoad > 0
+        ? (this.totalComplete + this.totalFailed) / this.totalToLoad
+        : 1;
+    this.emit("progress", this.progress);
+  }
+
+  private loadComplete(): void {
+    this.emit("postprocess", this);
+    this.list.clear();
+    this.inflight.clear();
+    this.progress = 1;
+    this.state = "complete";
+    this.emit("complete", this, this.totalComplete, this.totalFailed);
+  }
+
+  private resolveURL(url: string): string {
+    if (/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(url)) {
+      return url;
+    }
+    return `${this.baseURL}${this.path}${url}`;
+  }
+
+  private getResponse(src: string): HeadlessFileResponse {
+    const path = src.split(/[?#]/)[0];
+    const rule = this.responses.find((candidate) =>
+      typeof candidate.url === "string"
+        ? candidate.url === src || candidate.url === path
+        : candidate.url.test(src)
+    );
+    if (!rule) {
+      return this.defaultResponse;
+    }
+    const count = this.responseCounts.get(rule) ?? 0;
+    this.responseCounts.set(rule, count + 1);
+    return rule.responses[Math.min(count, rule.responses.length - 1)];
+  }
+
+  /**
+   * 端末が再生できる最初の音声 URL を取得（Blob URL・data URL はそのまま使う）
+   */
+  private findPlayableAudio(urls: string | string[]): string | null {
+    for (const url of Array.isArray(urls) ? urls : [urls]) {
+      if (url.startsWith("blob:") || url.startsWith("data:")) {
+        return url;
+      }
+      const extension = url.match(/\.([a-zA-Z0-9]+)($|\?)/)?.[1];
+      if (extension && this.audioFormats[extension.toLowerCase()]) {
+        return url;
+      }
+    }
+    return null;
+  }
+
+  private addTexture(
+    key: string,
+    response: HeadlessFileResponse,
+    frames: HeadlessFrameData[] = []
+  ): void {
+    this.textures.create(
+      key,
+      response.width ?? 32,
+      response.height ?? 32,
+      response.frames ?? frames
+    );
+  }
+}
+
+/**
+ * Phaser.Loader.File の代わり
+ */
+export class HeadlessFile {
+  readonly loader: HeadlessLoader;
+  readonly key: string;
+  readonly type: string;
+  readonly url: string;
+  readonly src: string;
+  multiFile?: HeadlessMultiFile;
+  bytesLoaded: number = 0;
+  bytesTotal: number = 0;
+  percentComplete: number = -1;
+  /** 読み込み後のデータ */
+  data: any;
+  /** 失敗時の HTTP ステータス（Phaser の file.xhrLoader と同じ形） */
+  xhrLoader?: { status: number; response: unknown };
+  /** 使われた応答 */
+  response: HeadlessFileResponse = {};
+  onComplete?: () => void;
+
+  constructor(
+    loader: HeadlessLoader,
+    key: string,
+    type: string,
+    url: string,
+    src: string
+  ) {
+    this.loader = loader;
+    this.key = key;
+    this.type = type;
+    this.url = url;
+    this.src = src;
+  }
+
+  /**
+   * 応答に従って読み込む
+   * 遅延がある場合は途中で fileprogress を発行する
+   */
+  load(clock: TestClock, response: HeadlessFileResponse): void {
+    this.response = response;
+    this.data = response.data ?? getDefaultData(this.type);
+    this.bytesTotal = response.bytes ?? measureBytes(response.data);
+    const delay = response.delay ?? 0;
+    const failed = response.fail || (response.status ?? 200) >= 400;
+
+    if (delay > 0 && !failed) {
+      clock.schedule(delay / 2, () => this.setProgress(0.5));
+    }
+    clock.schedule(delay, () => {
+      if (failed) {
+        this.xhrLoader = {
+          status: response.status ?? 0,
+          response: undefined,
+        };
+        this.loader.fileDone(this, false);
+        return;
+      }
+      this.setProgress(1);
+      this.xhrLoader = { status: response.status ?? 200, response: this.data };
+      this.loader.fileDone(this, true);
+    });
+  }
+
+  private setProgress(percent: number): void {
+    this.bytesLoaded = Math.round(this.bytesTotal * percent);
+    this.percentComplete = percent;
+    this.loader.emit("fileprogress", this, percent);
+  }
+}
+
+/**
+ * Phaser.Structs.Set の代わり（ローダーのファイル一覧）
+ */
+export class HeadlessFileSet {
+  private entries: Set<HeadlessFile> = new Set();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  set(file: HeadlessFile): this {
+    this.entries.add(file);
+    return this;
+  }
+
+  delete(file: HeadlessFile): this {
+    this.entries.delete(file);
+    return this;
+  }
+
+  contains(file: HeadlessFile): boolean {
+    return this.entries.has(file);
+  }
+
+  getArray(): HeadlessFile[] {
+    return Array.from(this.entries);
+  }
+
+  clear(): this {
+    this.entries.clear();
+    return this;
+  }
+}
+
+/**
+ * URL の指定を1つの URL にする（省略時は Phaser と同様にキーと拡張子から作る）
+ */
+const toURL = (
+  url: string | string[] | undefined,
+  key: string,
+  extension: string
+): string => (Array.isArray(url) ? url[0] : url) ?? `${key}.${extension}`;
+
+/**
+ * ファイルの種類ごとのデフォルトのデータ
+ */
+const getDefaultData = (type: string): unknown => {
+  switch (type) {
+    case "json":
+    case "multiatlas":
+    case "tilemapJSON":
+      return {};
+    case "text":
+    case "xml":
+    case "html":
+    case "glsl":
+    case "tilemapCSV":
+      return "";
+    default:
+      return null;
+  }
+};
+
+/**
+ * データの大きさ（バイト）を推定
+ */
+const measureBytes = (data: unknown): number => {
+  if (data === undefined || data === null) {
+    return 0;
+  }
+  if (data instanceof ArrayBuffer) {
+    return data.byteLength;
+  }
+  const text = typeof data === "string" ? data : JSON.stringify(data);
+  return new TextEncoder().encode(text).length;
+};
+
+/**
+ * 音声ファイルからキャッシュに追加するデータを作成
+ * 応答に data がない場合は AudioBuffer と同じ形のデータにする
+ */
+const readAudioData = (file: HeadlessFile): unknown =>
+  file.response.data ?? {
+    duration: file.response.duration ?? 1,
+    sampleRate: 44100,
+    numberOfChannels: 2,
+    length: Math.round((file.response.duration ?? 1) * 44100),
+  };
+
+/**
+ * テクスチャアトラスの JSON からフレームを取得（配列形式・ハッシュ形式・マルチアトラス形式）
+ */
+const readAtlasFrames = (data: any): HeadlessFrameData[] => {
+  const toFrame = (name: string, frame: any): HeadlessFrameData => ({
+    name,
+    width: frame?.frame?.w ?? 0,
+    height: frame?.frame?.h ?? 0,
+  });
+  const frames = Array.isArray(data?.textures)
+    ? data.textures.flatMap((texture: any) => texture.frames ?? [])
+    : data?.frames;
+  if (Array.isArray(frames)) {
+    return frames.map((frame: any) => toFrame(frame.filename, frame));
+  }
+  return Object.entries(frames ?? {}).map(([name, frame]) =>
+    toFrame(name, frame)
+  );
+};
+
+/**
+ * "a.b.c" 形式のキーで値を取得
+ */
+const getValue = (data: any, path: string): unknown =>
+  path.split(".").reduce((value, key) => value?.[key], data);
+
+/**
+ * 応答の登録
+ */
+interface ResponseRule {
+  url: string | RegExp;
+  responses: HeadlessFileResponse[];
+}
+
+/**
+ * 複数ファイルからなるアセット（Phaser.Loader.MultiFile の代わり）
+ */
+export interface HeadlessMultiFile {
+  key: string;
+  type: string;
+  files: HeadlessFile[];
+  failed: number;
+}
+
+/**
+ * ファイル読み込みの応答
+ */
+export interface HeadlessFileResponse {
+  /** 読み込み完了までの時間（ミリ秒、デフォルト: 0） */
+  delay?: number;
+  /** 失敗させる */
+  fail?: boolean;
+  /** HTTP ステータス（400以上で失敗） */
+  status?: number;
+  /** キャッシュに追加するデータ（JSON のオブジェクト、テキストなど） */
+  data?: unknown;
+  /** 転送量（バイト、デフォルト: data から推定） */
+  bytes?: number;
+  /** 画像の大きさ（デフォルト: 32x32） */
+  width?: number;
+  height?: number;
+  /** テクスチャのフレーム（デフォルト: スプライトシート・アトラスの設定から作成） */
+  frames?: HeadlessFrameData[];
+  /** 音声の長さ（秒、デフォルト: 1） */
+  duration?: number;
+}
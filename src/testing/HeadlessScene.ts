@@ -0,0 +1,206 @@
+import type * as Phaser from "phaser";
+import { HeadlessCacheManager, HeadlessTextureManager } from "./HeadlessCache";
+import { HeadlessEventEmitter } from "./HeadlessEventEmitter";
+import { HeadlessGraphics } from "./HeadlessGraphics";
+import { HeadlessLoader } from "./HeadlessLoader";
+import { HeadlessSoundManager } from "./HeadlessSound";
+import { HeadlessTime } from "./HeadlessTime";
+import { HeadlessTweenManager } from "./HeadlessTweens";
+import { TestClock } from "./TestClock";
+
+/**
+ * テスト用のシーン
+ * AssetManager・SoundManager が使う Phaser.Scene の機能（ローダー・キャッシュ・テクスチャ・サウンド・
+ * トゥイーン・タイマー・イベント・Graphics）をメモリ上で再現し、ブラウザや音声デバイスなしで動かせるようにする
+ *
+ * 使用例:
+ * ```typescript
+ * import { HeadlessScene } from 'phaser-game-core/testing';
+ *
+ * const scene = new HeadlessScene();
+ * scene.load.respond('assets/bgm.mp3', { duration: 10, delay: 100 });
+ *
+ * const assetManager = new AssetManager(scene.asScene());
+ * const soundManager = new SoundManager(scene.asScene(), assetManager);
+ * soundManager.registerSound('bgm', 'bgm', 'assets/bgm.mp3');
+ *
+ * await scene.clock.resolve(assetManager.loadAssets());
+ * soundManager.playBGM('bgm');
+ * scene.clock.advance(10000); // 再生が終わり complete が発行される
+ *
+ * scene.shutdown(); // shutdown イベントで後片付けされることを確認する
+ * ```
+ */
+export class HeadlessScene {
+  readonly clock: TestClock;
+  readonly events = new HeadlessEventEmitter();
+  readonly cache = new HeadlessCacheManager();
+  readonly textures = new HeadlessTextureManager();
+  readonly load: HeadlessLoader;
+  readonly sound: HeadlessSoundManager;
+  readonly tweens: HeadlessTweenManager;
+  readonly time: HeadlessTime;
+  readonly children: { list: unknown[] } = { list: [] };
+  readonly anims = new HeadlessAnimationManager();
+  readonly make: { graphics: () => HeadlessGraphics };
+  readonly scale: { width: number; height: number };
+  readonly sys: HeadlessSystems;
+
+  constructor(options: HeadlessSceneOptions = {}) {
+    this.clock = options.clock ?? new TestClock();
+    this.scale = { width: options.width ?? 800, height: options.height ?? 600 };
+    const audioFormats = { ...DEFAULT_AUDIO_FORMATS, ...options.audioFormats };
+    this.load = new HeadlessLoader(
+      this.clock,
+      this.cache,
+      this.textures,
+      audioFormats
+    );
+    this.sound = new HeadlessSoundManager(this.clock, this.cache);
+    this.tweens = new HeadlessTweenManager(this.clock);
+    this.time = new HeadlessTime(this.clock);
+    this.make = { graphics: () => new HeadlessGraphics(this.textures) };
+
+    const scenes: HeadlessScene[] = [this];
+    this.sys = {
+      settings: { key: options.key ?? "HeadlessScene" },
+      events: this.events,
+      game: {
+        scene: { getScenes: () => scenes },
+        device: { audio: audioFormats },
+      },
+    };
+    // update イベントは時計の経過に合わせて発行する
+    this.clock.addUpdater((now, delta) =>
+      this.events.emit("update", now, delta)
+    );
+  }
+
+  /**
+   * Phaser.Scene 型として取得（AssetManager・SoundManager のコンストラクターに渡す）
+   */
+  asScene(): Phaser.Scene {
+    return this as unknown as Phaser.Scene;
+  }
+
+  /**
+   * シーンの終了を再現（shutdown イベントを発行し、音声とタイマーを止める）
+   */
+  shutdown(): void {
+    this.events.emit("shutdown", this);
+    this.sound.stopAll();
+    this.tweens.killAll();
+    this.time.removeAllEvents();
+  }
+
+  /**
+   * シーンの破棄を再現（shutdown の後に destroy イベントを発行）
+   */
+  destroy(): void {
+    this.shutdown();
+    this.events.emit("destroy", this);
+    this.events.removeAllListeners();
+  }
+}
+
+/**
+ * scene.anims の代わり
+ * create で登録したアニメーションのフレームのみを管理する（テクスチャ置き換えの確認用）
+ */
+export class HeadlessAnimationManager {
+  private animations: Map<string, HeadlessAnimation> = new Map();
+
+  create(config: {
+    key: string;
+    frames: { key: string; frame?: string | number }[];
+  }): HeadlessAnimation | false {
+    if (this.animations.has(config.key)) {
+      return false;
+    }
+    const animation: HeadlessAnimation = {
+      key: config.key,
+      frames: config.frames.map((frame) => ({
+        textureKey: frame.key,
+        textureFrame: frame.frame ?? "__BASE",
+        frame: null,
+      })),
+    };
+    this.animations.set(config.key, animation);
+    return animation;
+  }
+
+  getAnimsFromTexture(key: string): string[] {
+    return Array.from(this.animations.values())
+      .filter((animation) =>
+        animation.frames.some((frame) => frame.textureKey === key)
+      )
+      .map((animation) => animation.key);
+  }
+
+  get(key: string): HeadlessAnimation | undefined {
+    return this.animations.get(key);
+  }
+
+  exists(key: string): boolean {
+    return this.animations.has(key);
+  }
+
+  remove(key: string): void {
+    this.animations.delete(key);
+  }
+}
+
+/**
+ * Phaser が対応している音声形式（全て再生できる扱い）
+ */
+const DEFAULT_AUDIO_FORMATS: { [format: string]: boolean } = {
+  aac: true,
+  flac: true,
+  m4a: true,
+  mp3: true,
+  mp4: true,
+  ogg: true,
+  opus: true,
+  wav: true,
+  webm: true,
+};
+
+/**
+ * アニメーション（Phaser.Animations.Animation の一部）
+ */
+export interface HeadlessAnimation {
+  key: string;
+  frames: {
+    textureKey: string;
+    textureFrame: string | number;
+    /** テクスチャのフレーム（AssetManager のテクスチャ置き換えで設定される） */
+    frame: unknown;
+  }[];
+}
+
+/**
+ * scene.sys の代わり
+ */
+export interface HeadlessSystems {
+  settings: { key: string };
+  events: HeadlessEventEmitter;
+  game: {
+    scene: { getScenes: (isActive?: boolean) => HeadlessScene[] };
+    device: { audio: { [format: string]: boolean } };
+  };
+}
+
+/**
+ * テスト用シーンの設定
+ */
+export interface HeadlessSceneOptions {
+  /** シーンキー（デフォルト: "HeadlessScene"） */
+  key?: string;
+  /** 複数のシーンで時計を共有する場合に指定 */
+  clock?: TestClock;
+  /** 画面の大きさ（デフォルト: 800x600） */
+  width?: number;
+  height?: number;
+  /** 再生できる音声形式（例: { ogg: false } で Safari を再現） */
+  audioFormats?: { [format: string]: boolean };
+}
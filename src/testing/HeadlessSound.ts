@@ -0,0 +1,476 @@
+import { HeadlessCacheManager } from "./HeadlessCache";
+import { HeadlessEventEmitter } from "./HeadlessEventEmitter";
+import { TestClock } from "./TestClock";
+
+/**
+ * scene.sound（Phaser.Sound.WebAudioSoundManager）の代わり
+ * 実際には音を出さず、再生位置を TestClock の経過時間で進めて complete・looped を発行する
+ */
+export class HeadlessSoundManager extends HeadlessEventEmitter {
+  readonly sounds: HeadlessSound[] = [];
+  readonly locked: boolean = false;
+  pauseOnBlur: boolean = true;
+  private cache: HeadlessCacheManager;
+  private masterVolume: number = 1;
+  private masterMute: boolean = false;
+  private masterRate: number = 1;
+
+  constructor(clock: TestClock, cache: HeadlessCacheManager) {
+    super();
+    this.cache = cache;
+    clock.addUpdater((_, delta) => {
+      [...this.sounds].forEach((sound) => sound.update(delta));
+    });
+  }
+
+  get volume(): number {
+    return this.masterVolume;
+  }
+
+  set volume(value: number) {
+    this.masterVolume = value;
+    this.emit("volume", this, value);
+  }
+
+  get mute(): boolean {
+    return this.masterMute;
+  }
+
+  set mute(value: boolean) {
+    this.masterMute = value;
+    this.emit("mute", this, value);
+  }
+
+  get rate(): number {
+    return this.masterRate;
+  }
+
+  set rate(value: number) {
+    this.masterRate = value;
+    this.emit("rate", this, value);
+  }
+
+  setVolume(value: number): this {
+    this.volume = value;
+    return this;
+  }
+
+  setMute(value: boolean): this {
+    this.mute = value;
+    return this;
+  }
+
+  setRate(value: number): this {
+    this.rate = value;
+    return this;
+  }
+
+  /**
+   * 音声を作成
+   * Phaser と同様に、キャッシュにない音声を指定するとエラーを投げる
+   */
+  add(key: string, config: HeadlessSoundConfig = {}): HeadlessSound {
+    const data = this.cache.audio.get(key);
+    if (data === undefined) {
+      throw new Error(`Audio key "${key}" not found in cache`);
+    }
+    const sound = new HeadlessSound(this, key, getAudioDuration(data), config);
+    this.sounds.push(sound);
+    return sound;
+  }
+
+  /**
+   * オーディオスプライトを作成（JSON の spritemap をマーカーとして追加）
+   */
+  addAudioSprite(key: string, config: HeadlessSoundConfig = {}): HeadlessSound {
+    const sound = this.add(key, config);
+    const spritemap: {
+      [name: string]: { start: number; end: number; loop?: boolean };
+    } = this.cache.json.get(key)?.spritemap ?? {};
+    for (const [name, marker] of Object.entries(spritemap)) {
+      sound.addMarker({
+        name,
+        start: marker.start,
+        duration: marker.end - marker.start,
+        config: marker.loop !== undefined ? { loop: marker.loop } : undefined,
+      });
+    }
+    return sound;
+  }
+
+  /**
+   * 音声を作成して再生し、再生が終わったら破棄する
+   */
+  play(
+    key: string,
+    extra?: HeadlessSoundConfig | HeadlessSoundMarker
+  ): boolean {
+    const sound = this.add(key);
+    sound.once("complete", () => sound.destroy());
+    if (extra && "name" in extra) {
+      sound.addMarker(extra);
+      return sound.play(extra.name);
+    }
+    return sound.play(extra);
+  }
+
+  get(key: string): HeadlessSound | null {
+    return this.sounds.find((sound) => sound.key === key) ?? null;
+  }
+
+  getAll(key?: string): HeadlessSound[] {
+    return this.sounds.filter(
+      (sound) => key === undefined || sound.key === key
+    );
+  }
+
+  getAllPlaying(): HeadlessSound[] {
+    return this.sounds.filter((sound) => sound.isPlaying);
+  }
+
+  remove(sound: HeadlessSound): boolean {
+    const index = this.sounds.indexOf(sound);
+    if (index < 0) {
+      return false;
+    }
+    this.sounds.splice(index, 1);
+    sound.destroy();
+    return true;
+  }
+
+  removeByKey(key: string): number {
+    const removed = this.getAll(key);
+    removed.forEach((sound) => this.remove(sound));
+    return removed.length;
+  }
+
+  removeAll(): void {
+    [...this.sounds].forEach((sound) => this.remove(sound));
+  }
+
+  stopByKey(key: string): number {
+    return this.getAll(key).filter((sound) => sound.stop()).length;
+  }
+
+  stopAll(): void {
+    this.sounds.forEach((sound) => sound.stop());
+    this.emit("stopall", this);
+  }
+
+  pauseAll(): void {
+    this.sounds.forEach((sound) => sound.pause());
+    this.emit("pauseall", this);
+  }
+
+  resumeAll(): void {
+    this.sounds.forEach((sound) => sound.resume());
+    this.emit("resumeall", this);
+  }
+
+  unlock(): void {}
+}
+
+/**
+ * Phaser.Sound.BaseSound の代わり
+ */
+export class HeadlessSound extends HeadlessEventEmitter {
+  readonly manager: HeadlessSoundManager;
+  readonly key: string;
+  /** 音声ファイル全体の長さ（秒） */
+  readonly totalDuration: number;
+  /** 再生中のマーカー（全体の場合は音声ファイル全体）の長さ（秒） */
+  duration: number;
+  readonly markers: { [name: string]: HeadlessSoundMarker } = {};
+  currentMarker: HeadlessSoundMarker | null = null;
+  isPlaying: boolean = false;
+  isPaused: boolean = false;
+  pendingRemove: boolean = false;
+  private settings: Required<HeadlessSoundConfig>;
+  private position: number = 0;
+  private delayLeft: number = 0;
+
+  constructor(
+    manager: HeadlessSoundManager,
+    key: string,
+    duration: number,
+    config: HeadlessSoundConfig
+  ) {
+    super();
+    this.manager = manager;
+    this.key = key;
+    this.totalDuration = duration;
+    this.duration = duration;
+    this.settings = { ...DEFAULT_SOUND_CONFIG, ...config };
+  }
+
+  get volume(): number {
+    return this.settings.volume;
+  }
+
+  set volume(value: number) {
+    this.settings.volume = value;
+    this.emit("volume", this, value);
+  }
+
+  get mute(): boolean {
+    return this.settings.mute;
+  }
+
+  set mute(value: boolean) {
+    this.settings.mute = value;
+    this.emit("mute", this, value);
+  }
+
+  get rate(): number {
+    return this.settings.rate;
+  }
+
+  set rate(value: number) {
+    this.settings.rate = value;
+    this.emit("rate", this, value);
+  }
+
+  get detune(): number {
+    return this.settings.detune;
+  }
+
+  set detune(value: number) {
+    this.settings.detune = value;
+    this.emit("detune", this, value);
+  }
+
+  get loop(): boolean {
+    return this.settings.loop;
+  }
+
+  set loop(value: boolean) {
+    this.settings.loop = value;
+    this.emit("loop", this, value);
+  }
+
+  /**
+   * 再生位置（秒、マーカーの先頭から）
+   */
+  get seek(): number {
+    return this.position;
+  }
+
+  set seek(value: number) {
+    this.position = Math.max(0, Math.min(value, this.duration));
+    this.emit("seek", this, value);
+  }
+
+  /**
+   * マーカー名または設定を指定して最初から再生
+   * 存在しないマーカーを指定した場合は再生せず false を返す
+   */
+  play(
+    markerName?: string | HeadlessSoundConfig,
+    config?: HeadlessSoundConfig
+  ): boolean {
+    if (typeof markerName === "object") {
+      config = markerName;
+      markerName = "";
+    }
+    if (markerName) {
+      const marker = this.markers[markerName];
+      if (!marker) {
+        console.warn(`Marker "${markerName}" does not exist`);
+        return false;
+      }
+      this.currentMarker = marker;
+      this.duration =
+        marker.duration ?? this.totalDuration - (marker.start ?? 0);
+      this.settings = {
+        ...this.settings,
+        ...DEFAULT_SOUND_CONFIG,
+        ...marker.config,
+      };
+    } else {
+      this.currentMarker = null;
+      this.duration = this.totalDuration;
+    }
+    this.settings = { ...this.settings, ...config };
+    this.position = this.settings.seek;
+    this.delayLeft = this.settings.delay * 1000;
+    this.isPlaying = true;
+    this.isPaused = false;
+    this.emit("play", this);
+    return true;
+  }
+
+  pause(): boolean {
+    if (this.isPaused || !this.isPlaying) {
+      return false;
+    }
+    this.isPlaying = false;
+    this.isPaused = true;
+    this.emit("pause", this);
+    return true;
+  }
+
+  resume(): boolean {
+    if (!this.isPaused || this.isPlaying) {
+      return false;
+    }
+    this.isPlaying = true;
+    this.isPaused = false;
+    this.emit("resume", this);
+    return true;
+  }
+
+  stop(): boolean {
+    if (!this.isPlaying && !this.isPaused) {
+      return false;
+    }
+    this.isPlaying = false;
+    this.isPaused = false;
+    this.position = 0;
+    this.emit("stop", this);
+    return true;
+  }
+
+  addMarker(marker: HeadlessSoundMarker): boolean {
+    if (!marker?.name || this.markers[marker.name]) {
+      return false;
+    }
+    this.markers[marker.name] = { start: 0, ...marker };
+    return true;
+  }
+
+  updateMarker(marker: HeadlessSoundMarker): boolean {
+    if (!this.markers[marker.name]) {
+      return false;
+    }
+    this.markers[marker.name] = { ...this.markers[marker.name], ...marker };
+    return true;
+  }
+
+  removeMarker(name: string): HeadlessSoundMarker | null {
+    const marker = this.markers[name] ?? null;
+    delete this.markers[name];
+    return marker;
+  }
+
+  setVolume(value: number): this {
+    this.volume = value;
+    return this;
+  }
+
+  setMute(value: boolean): this {
+    this.mute = value;
+    return this;
+  }
+
+  setRate(value: number): this {
+    this.rate = value;
+    return this;
+  }
+
+  setDetune(value: number): this {
+    this.detune = value;
+    return this;
+  }
+
+  setLoop(value: boolean): this {
+    this.loop = value;
+    return this;
+  }
+
+  setSeek(value: number): this {
+    this.seek = value;
+    return this;
+  }
+
+  destroy(): void {
+    if (this.pendingRemove) {
+      return;
+    }
+    this.pendingRemove = true;
+    this.isPlaying = false;
+    this.isPaused = false;
+    this.manager.remove(this);
+    this.emit("destroy", this);
+    this.removeAllListeners();
+  }
+
+  /**
+   * 再生位置を進める（HeadlessSoundManager から呼ばれる）
+   * 終端に達するとループ時は looped、それ以外は complete を発行する
+   */
+  update(delta: number): void {
+    if (!this.isPlaying) {
+      return;
+    }
+    if (this.delayLeft > 0) {
+      const used = Math.min(this.delayLeft, delta);
+      this.delayLeft -= used;
+      delta -= used;
+    }
+    const rate =
+      this.settings.rate *
+      this.manager.rate *
+      Math.pow(2, this.settings.detune / 1200);
+    this.position += (delta / 1000) * rate;
+
+    while (this.isPlaying && this.position >= this.duration) {
+      if (this.loop && this.duration > 0) {
+        this.position -= this.duration;
+        this.emit("looped", this);
+      } else {
+        this.position = 0;
+        this.isPlaying = false;
+        this.emit("complete", this);
+      }
+    }
+  }
+}
+
+const DEFAULT_SOUND_CONFIG: Required<HeadlessSoundConfig> = {
+  mute: false,
+  volume: 1,
+  rate: 1,
+  detune: 0,
+  seek: 0,
+  loop: false,
+  delay: 0,
+  pan: 0,
+};
+
+/**
+ * キャッシュの音声データから長さ（秒）を取得
+ * HeadlessLoader が追加するデータ・AudioBuffer・HTMLAudioElement に対応する
+ */
+const getAudioDuration = (data: unknown): number => {
+  const duration = (data as { duration?: unknown } | null)?.duration;
+  return typeof duration === "number" && Number.isFinite(duration)
+    ? duration
+    : 0;
+};
+
+/**
+ * 音声の設定（Phaser.Types.Sound.SoundConfig と同じ）
+ */
+export interface HeadlessSoundConfig {
+  mute?: boolean;
+  volume?: number;
+  rate?: number;
+  detune?: number;
+  seek?: number;
+  loop?: boolean;
+  /** 再生開始までの遅延（秒） */
+  delay?: number;
+  pan?: number;
+}
+
+/**
+ * 音声のマーカー（Phaser.Types.Sound.SoundMarker と同じ）
+ */
+export interface HeadlessSoundMarker {
+  name: string;
+  /** 開始位置（秒） */
+  start?: number;
+  /** 長さ（秒） */
+  duration?: number;
+  config?: HeadlessSoundConfig;
+}
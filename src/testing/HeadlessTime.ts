@@ -0,0 +1,159 @@
+import { TestClock } from "./TestClock";
+
+/**
+ * scene.time（Phaser.Time.Clock）の代わり
+ * delayedCall・addEvent のタイマーを TestClock で進める
+ */
+export class HeadlessTime {
+  private clock: TestClock;
+  private events: Set<HeadlessTimerEvent> = new Set();
+
+  constructor(clock: TestClock) {
+    this.clock = clock;
+  }
+
+  get now(): number {
+    return this.clock.now;
+  }
+
+  addEvent(config: HeadlessTimerEventConfig): HeadlessTimerEvent {
+    const event = new HeadlessTimerEvent(this.clock, config, () =>
+      this.events.delete(event)
+    );
+    this.events.add(event);
+    return event;
+  }
+
+  delayedCall(
+    delay: number,
+    callback: Function,
+    args?: unknown[],
+    callbackScope?: unknown
+  ): HeadlessTimerEvent {
+    return this.addEvent({ delay, callback, args, callbackScope });
+  }
+
+  removeEvent(event: HeadlessTimerEvent | HeadlessTimerEvent[]): this {
+    (Array.isArray(event) ? event : [event]).forEach((timer) => timer.remove());
+    return this;
+  }
+
+  removeAllEvents(): this {
+    [...this.events].forEach((event) => event.remove());
+    return this;
+  }
+}
+
+/**
+ * Phaser.Time.TimerEvent の代わり
+ */
+export class HeadlessTimerEvent {
+  readonly delay: number;
+  readonly loop: boolean;
+  /** 残りの繰り返し回数 */
+  repeatCount: number;
+  hasDispatched: boolean = false;
+  paused: boolean = false;
+  private clock: TestClock;
+  private config: HeadlessTimerEventConfig;
+  private onRemove: () => void;
+  private cancel: (() => void) | null = null;
+  private startedAt: number;
+  private pausedElapsed: number = 0;
+
+  constructor(
+    clock: TestClock,
+    config: HeadlessTimerEventConfig,
+    onRemove: () => void
+  ) {
+    this.clock = clock;
+    this.config = config;
+    this.onRemove = onRemove;
+    this.delay = config.delay ?? 0;
+    this.loop = config.loop ?? false;
+    this.repeatCount = config.repeat ?? 0;
+    // Phaser と同様に、遅延 0 の繰り返しは無限ループになるため受け付けない
+    if ((this.loop || this.repeatCount > 0) && this.delay <= 0) {
+      throw new Error("TimerEvent infinite loop created via zero delay");
+    }
+    this.startedAt = clock.now;
+    this.start(this.delay + (config.startAt ? -config.startAt : 0));
+  }
+
+  getElapsed(): number {
+    return this.paused ? this.pausedElapsed : this.clock.now - this.startedAt;
+  }
+
+  getProgress(): number {
+    return this.delay > 0 ? Math.min(1, this.getElapsed() / this.delay) : 1;
+  }
+
+  getRemaining(): number {
+    return Math.max(0, this.delay - this.getElapsed());
+  }
+
+  /**
+   * タイマーを取り除く（dispatchCallback を指定した場合はコールバックを1回実行する）
+   */
+  remove(dispatchCallback: boolean = false): void {
+    this.cancel?.();
+    this.cancel = null;
+    this.onRemove();
+    if (dispatchCallback) {
+      this.dispatch();
+    }
+  }
+
+  destroy(): void {
+    this.remove();
+  }
+
+  setPaused(paused: boolean): this {
+    if (paused === this.paused) {
+      return this;
+    }
+    if (paused) {
+      this.pausedElapsed = this.getElapsed();
+      this.cancel?.();
+      this.cancel = null;
+    } else {
+      this.startedAt = this.clock.now - this.pausedElapsed;
+      this.start(this.delay - this.pausedElapsed);
+    }
+    this.paused = paused;
+    return this;
+  }
+
+  private start(delay: number): void {
+    this.cancel = this.clock.schedule(delay, () => {
+      this.cancel = null;
+      this.dispatch();
+      if (this.loop || this.repeatCount-- > 0) {
+        this.startedAt = this.clock.now;
+        this.start(this.delay);
+      } else {
+        this.onRemove();
+      }
+    });
+  }
+
+  private dispatch(): void {
+    this.hasDispatched = true;
+    this.config.callback?.apply(this.config.callbackScope, [
+      ...(this.config.args ?? []),
+    ]);
+  }
+}
+
+/**
+ * タイマー設定（Phaser.Types.Time.TimerEventConfig の一部）
+ */
+export interface HeadlessTimerEventConfig {
+  delay?: number;
+  loop?: boolean;
+  repeat?: number;
+  startAt?: number;
+  callback?: Function;
+  callbackScope?: unknown;
+  args?: unknown[];
+}
@@ -0,0 +1,427 @@
+import { HeadlessEventEmitter } from "./HeadlessEventEmitter";
+import { TestClock } from "./TestClock";
+
+/**
+ * scene.tweens（Phaser.Tweens.TweenManager）の代わり
+ * 数値プロパティのトゥイーンを TestClock の経過時間で進める
+ */
+export class HeadlessTweenManager {
+  private tweens: HeadlessTween[] = [];
+
+  constructor(clock: TestClock) {
+    clock.addUpdater((_, delta) => {
+      [...this.tweens].forEach((tween) => tween.update(delta));
+      this.tweens = this.tweens.filter((tween) => !tween.isFinished());
+    });
+  }
+
+  add(config: HeadlessTweenConfig): HeadlessTween {
+    const tween = new HeadlessTween(config);
+    this.tweens.push(tween);
+    return tween;
+  }
+
+  /**
+   * 値だけを変化させるトゥイーン（tween.getValue() で取得する）
+   */
+  addCounter(config: HeadlessCounterConfig): HeadlessTween {
+    const counter = { value: config.from ?? 0 };
+    const { from, to, ...rest } = config;
+    return this.add({ ...rest, targets: counter, value: to ?? 1 });
+  }
+
+  getTweens(): HeadlessTween[] {
+    return this.tweens.filter((tween) => !tween.isFinished());
+  }
+
+  getTweensOf(target: object | object[]): HeadlessTween[] {
+    const targets = Array.isArray(target) ? target : [target];
+    return this.getTweens().filter((tween) =>
+      tween.targets.some((tweenTarget) => targets.includes(tweenTarget))
+    );
+  }
+
+  isTweening(target: object): boolean {
+    return this.getTweensOf(target).some((tween) => tween.isPlaying());
+  }
+
+  killTweensOf(target: object | object[]): this {
+    this.getTweensOf(target).forEach((tween) => tween.stop());
+    return this;
+  }
+
+  killAll(): this {
+    this.getTweens().forEach((tween) => tween.stop());
+    return this;
+  }
+}
+
+/**
+ * Phaser.Tweens.Tween の代わり
+ */
+export class HeadlessTween extends HeadlessEventEmitter {
+  readonly targets: any[];
+  /** 0〜1（繰り返し・ヨーヨーを除いた1回分の進捗） */
+  progress: number = 0;
+  hasStarted: boolean = false;
+  paused: boolean;
+  private config: HeadlessTweenConfig;
+  private properties: TweenProperty[] = [];
+  private elapsed: number = 0;
+  private duration: number;
+  private delay: number;
+  private repeatsLeft: number;
+  private reversing: boolean = false;
+  private ease: (t: number) => number;
+  private state: "pending" | "playing" | "finished" = "pending";
+
+  constructor(config: HeadlessTweenConfig) {
+    super();
+    this.config = config;
+    this.targets = Array.isArray(config.targets)
+      ? config.targets
+      : [config.targets];
+    this.duration = config.duration ?? 1000;
+    this.delay = config.delay ?? 0;
+    this.repeatsLeft = config.loop === -1 ? -1 : config.repeat ?? 0;
+    this.paused = config.paused ?? false;
+    this.ease = getEaseFunction(config.ease);
+  }
+
+  isPlaying(): boolean {
+    return this.state !== "finished" && !this.paused;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  isFinished(): boolean {
+    return this.state === "finished";
+  }
+
+  pause(): this {
+    this.paused = true;
+    this.emit("pause", this);
+    return this;
+  }
+
+  resume(): this {
+    this.paused = false;
+    this.emit("resume", this);
+    return this;
+  }
+
+  play(): this {
+    return this.resume();
+  }
+
+  /**
+   * 現在の値のまま停止する（onComplete は呼ばれない）
+   */
+  stop(): this {
+    if (this.state === "finished") {
+      return this;
+    }
+    this.state = "finished";
+    this.callback("onStop");
+    this.emit("stop", this);
+    return this;
+  }
+
+  remove(): this {
+    return this.stop();
+  }
+
+  destroy(): void {
+    this.stop();
+    this.removeAllListeners();
+  }
+
+  /**
+   * 終了値に設定して完了させる
+   */
+  complete(): this {
+    if (this.state === "finished") {
+      return this;
+    }
+    this.start();
+    this.reversing = false;
+    this.apply(1);
+    this.finish();
+    return this;
+  }
+
+  /**
+   * 最初のターゲットの最初のプロパティの現在値
+   */
+  getValue(index: number = 0): number {
+    const property = this.properties[index];
+    return property ? property.target[property.key] : 0;
+  }
+
+  /**
+   * 経過時間を進める（HeadlessTweenManager から呼ばれる）
+   */
+  update(delta: number): void {
+    if (this.state === "finished" || this.paused) {
+      return;
+    }
+    this.elapsed += delta;
+    if (this.elapsed < this.delay) {
+      return;
+    }
+    this.start();
+
+    let time = this.elapsed - this.delay;
+    for (;;) {
+      if (time < this.duration) {
+        this.apply(this.duration > 0 ? time / this.duration : 1);
+        this.callback("onUpdate");
+        this.emit("update", this);
+        return;
+      }
+
+      this.apply(1);
+      time -= this.duration;
+      this.elapsed = this.delay + time;
+      if (this.config.yoyo && !this.reversing) {
+        this.reversing = true;
+        this.callback("onYoyo");
+        this.emit("yoyo", this);
+      } else if (this.repeatsLeft !== 0) {
+        this.repeatsLeft--;
+        this.reversing = false;
+        this.callback("onRepeat");
+        this.emit("repeat", this);
+      } else {
+        this.finish();
+        return;
+      }
+      if (this.duration <= 0) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * 開始値を記録して onStart を呼ぶ（初回のみ）
+   */
+  private start(): void {
+    if (this.hasStarted) {
+      return;
+    }
+    this.hasStarted = true;
+    this.state = "playing";
+    this.properties = this.createProperties();
+    this.callback("onStart");
+    this.emit("start", this);
+  }
+
+  private finish(): void {
+    this.state = "finished";
+    this.progress = 1;
+    this.callback("onComplete");
+    this.emit("complete", this);
+  }
+
+  /**
+   * 進捗 t（0〜1）の値をターゲットに設定
+   */
+  private apply(t: number): void {
+    this.progress = t;
+    const eased = this.ease(this.reversing ? 1 - t : t);
+    for (const property of this.properties) {
+      property.target[property.key] =
+        property.from + (property.to - property.from) * eased;
+    }
+  }
+
+  private createProperties(): TweenProperty[] {
+    const properties: TweenProperty[] = [];
+    for (const [key, value] of Object.entries(this.config)) {
+      if (TWEEN_CONFIG_KEYS.includes(key)) {
+        continue;
+      }
+      for (const target of this.targets) {
+        const current = Number(target[key] ?? 0);
+        const { from, to } = resolveTweenValue(value, current);
+        target[key] = from;
+        properties.push({ target, key, from, to });
+      }
+    }
+    return properties;
+  }
+
+  private callback(name: TweenCallbackName): void {
+    const callback = this.config[name];
+    callback?.call(this.config.callbackScope, this, this.targets);
+  }
+}
+
+/**
+ * トゥイーン設定のうちプロパティ以外のキー
+ */
+const TWEEN_CONFIG_KEYS = [
+  "targets",
+  "duration",
+  "delay",
+  "ease",
+  "yoyo",
+  "repeat",
+  "loop",
+  "paused",
+  "persist",
+  "callbackScope",
+  "onStart",
+  "onUpdate",
+  "onYoyo",
+  "onRepeat",
+  "onComplete",
+  "onStop",
+];
+
+/**
+ * プロパティの指定値から開始値と終了値を求める
+ * 数値、"+=10" / "-=10" の相対値、{ from, to }、{ value } に対応する
+ */
+const resolveTweenValue = (
+  value: unknown,
+  current: number
+): { from: number; to: number } => {
+  if (typeof value === "number") {
+    return { from: current, to: value };
+  }
+  if (typeof value === "string") {
+    const relative = value.match(/^([+\-*/])=(-?[\d.]+)$/);
+    if (relative) {
+      const amount = Number(relative[2]);
+      const to = {
+        "+": current + amount,
+        "-": current - amount,
+        "*": current * amount,
+        "/": current / amount,
+      }[relative[1] as "+" | "-" | "*" | "/"];
+      return { from: current, to };
+    }
+    return { from: current, to: Number(value) };
+  }
+  if (typeof value === "object" && value !== null) {
+    const {
+      from,
+      to,
+      value: target,
+    } = value as {
+      from?: number;
+      to?: number;
+      value?: number;
+    };
+    return { from: from ?? current, to: to ?? target ?? current };
+  }
+  return { from: current, to: current };
+};
+
+/**
+ * Phaser のイージング名から関数を取得
+ * "Power2" などの名前と "Quad.easeIn" / "Quad.In" 形式に対応し、不明な名前は Linear として扱う
+ */
+const getEaseFunction = (
+  ease: string | ((t: number) => number) | undefined
+): ((t: number) => number) => {
+  if (typeof ease === "function") {
+    return ease;
+  }
+  const [name, type = "Out"] = (ease ?? "Linear").split(".");
+  const direction = type.replace(/^ease/, "");
+  const powers: { [name: string]: number } = {
+    Power0: 1,
+    Linear: 1,
+    Power1: 2,
+    Quad: 2,
+    Power2: 3,
+    Cubic: 3,
+    Power3: 4,
+    Quart: 4,
+    Power4: 5,
+    Quint: 5,
+  };
+
+  let easeIn: (t: number) => number;
+  if (name === "Sine") {
+    easeIn = (t) => 1 - Math.cos((t * Math.PI) / 2);
+  } else {
+    const power = powers[name] ?? 1;
+    easeIn = (t) => Math.pow(t, power);
+  }
+
+  switch (direction) {
+    case "In":
+      return easeIn;
+    case "InOut":
+      return (t) => (t < 0.5 ? easeIn(t * 2) / 2 : 1 - easeIn((1 - t) * 2) / 2);
+    default:
+      return (t) => 1 - easeIn(1 - t);
+  }
+};
+
+/**
+ * トゥイーンで変化させるプロパティ
+ */
+interface TweenProperty {
+  target: any;
+  key: string;
+  from: number;
+  to: number;
+}
+
+type TweenCallbackName =
+  | "onStart"
+  | "onUpdate"
+  | "onYoyo"
+  | "onRepeat"
+  | "onComplete"
+  | "onStop";
+
+/**
+ * トゥイーンの動作設定
+ */
+export interface HeadlessTweenSettings {
+  duration?: number;
+  delay?: number;
+  ease?: string | ((t: number) => number);
+  yoyo?: boolean;
+  repeat?: number;
+  /** -1 で無限に繰り返す */
+  loop?: number;
+  paused?: boolean;
+  persist?: boolean;
+  callbackScope?: unknown;
+  onStart?: HeadlessTweenCallback;
+  onUpdate?: HeadlessTweenCallback;
+  onYoyo?: HeadlessTweenCallback;
+  onRepeat?: HeadlessTweenCallback;
+  onComplete?: HeadlessTweenCallback;
+  onStop?: HeadlessTweenCallback;
+}
+
+/**
+ * トゥイーン設定（Phaser.Types.Tweens.TweenBuilderConfig の一部）
+ * targets と動作設定以外のキーは変化させるプロパティとして扱う
+ */
+export interface HeadlessTweenConfig extends HeadlessTweenSettings {
+  targets: any;
+  [property: string]: unknown;
+}
+
+/**
+ * カウンタートゥイーン設定
+ */
+export interface HeadlessCounterConfig extends HeadlessTweenSettings {
+  from?: number;
+  to?: number;
+}
+
+export type HeadlessTweenCallback = (
+  tween: HeadlessTween,
+  targets: any[]
+) => void;
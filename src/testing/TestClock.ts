@@ -0,0 +1,183 @@
+/**
+ * テスト用の時計
+ * HeadlessScene のタイマー・ファイル読み込み・音声再生・トゥイーンは全てこの時計で進む。
+ * advance を呼ばない限り時間は進まないため、テストの結果が実行環境に左右されない
+ *
+ * 使用例:
+ * ```typescript
+ * const clock = new TestClock();
+ * const scene = new HeadlessScene({ clock });
+ *
+ * // 100ms 進める（間にあるタイマーは予定時刻ちょうどに実行される）
+ * clock.advance(100);
+ *
+ * // Promise が決着するまで時計を進める
+ * const result = await clock.resolve(assetManager.loadAssets());
+ * ```
+ */
+export class TestClock {
+  private currentTime: number = 0;
+  private timers: ClockTimer[] = [];
+  private updaters: Set<ClockUpdater> = new Set();
+  private nextTimerId: number = 0;
+  private stepMs: number;
+
+  /**
+   * @param stepMs advance で1回に進める最大の時間（ミリ秒、デフォルト: 1フレーム分）
+   */
+  constructor(stepMs: number = 1000 / 60) {
+    this.stepMs = stepMs;
+  }
+
+  /**
+   * 現在時刻（ミリ秒）
+   */
+  get now(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * delay ミリ秒後に callback を実行する
+   * 戻り値は予約を取り消す関数
+   */
+  schedule(delay: number, callback: () => void): () => void {
+    const timer: ClockTimer = {
+      id: this.nextTimerId++,
+      at: this.currentTime + Math.max(0, delay),
+      callback,
+    };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter((scheduled) => scheduled !== timer);
+    };
+  }
+
+  /**
+   * 時間経過ごとに呼ばれる処理を追加
+   * 戻り値は処理を取り除く関数
+   */
+  addUpdater(updater: ClockUpdater): () => void {
+    this.updaters.add(updater);
+    return () => this.updaters.delete(updater);
+  }
+
+  /**
+   * 時間を進める
+   * stepMs ごとに区切り、予約されたタイマーの時刻でも区切って、更新処理とタイマーを順に実行する
+   */
+  advance(ms: number): void {
+    const end = this.currentTime + Math.max(0, ms);
+    do {
+      const nextTimer = this.getNextTimerTime();
+      const next = Math.min(end, this.currentTime + this.stepMs, nextTimer);
+      const delta = next - this.currentTime;
+      this.currentTime = next;
+      if (delta > 0) {
+        this.updaters.forEach((updater) => updater(this.currentTime, delta));
+      }
+      this.runDueTimers();
+    } while (this.currentTime < end);
+  }
+
+  /**
+   * 時間を進めながら、各区切りで Promise の後続処理を実行させる
+   * 読み込みなど async 処理をまたぐコードのテストに使う
+   */
+  async advanceAsync(ms: number): Promise<void> {
+    const end = this.currentTime + Math.max(0, ms);
+    await flushPromises();
+    while (this.currentTime < end) {
+      this.advance(Math.min(this.stepMs, end - this.currentTime));
+      await flushPromises();
+    }
+  }
+
+  /**
+   * Promise が決着するまで時計を進め、その結果を返す
+   * timeoutMs（テスト時計上の時間）を過ぎても決着しない場合はエラーを投げる
+   */
+  async resolve<T>(promise: Promise<T>, timeoutMs: number = 60000): Promise<T> {
+    let settled = false;
+    const tracked = promise.finally(() => {
+      settled = true;
+    });
+    // 決着前に失敗した場合の未処理エラーを防ぐ
+    tracked.catch(() => undefined);
+
+    const end = this.currentTime + timeoutMs;
+    await flushPromises();
+    while (!settled) {
+      if (this.currentTime >= end) {
+        throw new Error(`Promise did not settle within ${timeoutMs}ms`);
+      }
+      this.advance(this.stepMs);
+      await flushPromises();
+    }
+    return tracked;
+  }
+
+  /**
+   * 予約されたタイマーがなくなるまで時計を進める（ループするタイマーがある場合は maxMs まで）
+   */
+  async runAll(maxMs: number = 60000): Promise<void> {
+    const end = this.currentTime + maxMs;
+    await flushPromises();
+    while (this.timers.length > 0 && this.currentTime < end) {
+      this.advance(
+        Math.min(this.getNextTimerTime(), end) - this.currentTime || 0
+      );
+      await flushPromises();
+    }
+  }
+
+  /**
+   * 予約されているタイマーの数
+   */
+  getPendingTimerCount(): number {
+    return this.timers.length;
+  }
+
+  private getNextTimerTime(): number {
+    return this.timers.reduce(
+      (min, timer) => Math.min(min, timer.at),
+      Infinity
+    );
+  }
+
+  /**
+   * 予定時刻を過ぎたタイマーを時刻順（同時刻は予約順）に実行
+   * 実行中に予約された同時刻のタイマーも実行する
+   */
+  private runDueTimers(): void {
+    for (;;) {
+      const due = this.timers
+        .filter((timer) => timer.at <= this.currentTime)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+      if (!due) {
+        return;
+      }
+      this.timers = this.timers.filter((timer) => timer !== due);
+      due.callback();
+    }
+  }
+}
+
+/**
+ * 待機中の Promise の後続処理を全て実行させる
+ */
+export const flushPromises = (): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * 時間経過ごとに呼ばれる処理（now: 現在時刻、delta: 前回からの経過時間）
+ */
+export type ClockUpdater = (now: number, delta: number) => void;
+
+/**
+ * 予約されたタイマー
+ */
+interface ClockTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
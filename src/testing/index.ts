@@ -0,0 +1,44 @@
+export { TestClock, ClockUpdater, flushPromises } from "./TestClock";
+export {
+  HeadlessScene,
+  HeadlessSceneOptions,
+  HeadlessSystems,
+  HeadlessAnimationManager,
+  HeadlessAnimation,
+} from "./HeadlessScene";
+export {
+  HeadlessLoader,
+  HeadlessFile,
+  HeadlessFileSet,
+  HeadlessMultiFile,
+  HeadlessFileResponse,
+} from "./HeadlessLoader";
+export {
+  HeadlessCache,
+  HeadlessCacheManager,
+  HeadlessTexture,
+  HeadlessTextureManager,
+  HeadlessFrame,
+  HeadlessFrameData,
+} from "./HeadlessCache";
+export { HeadlessGraphics, HeadlessGraphicsCommand } from "./HeadlessGraphics";
+export {
+  HeadlessSoundManager,
+  HeadlessSound,
+  HeadlessSoundConfig,
+  HeadlessSoundMarker,
+} from "./HeadlessSound";
+export {
+  HeadlessTweenManager,
+  HeadlessTween,
+  HeadlessTweenSettings,
+  HeadlessTweenConfig,
+  HeadlessCounterConfig,
+  HeadlessTweenCallback,
+} from "./HeadlessTweens";
+export {
+  HeadlessTime,
+  HeadlessTimerEvent,
+  HeadlessTimerEventConfig,
+} from "./HeadlessTime";
+export { HeadlessEventEmitter } from "./HeadlessEventEmitter";
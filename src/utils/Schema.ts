@@ -0,0 +1,288 @@
+/**
+ * 軽量スキーマ定義
+ * JSON などのゲームデータの構造チェックと、デフォルト値・変換の適用に使う
+ *
+ * 使用例:
+ * ```typescript
+ * const enemySchema: Schema = {
+ *   type: "object",
+ *   required: ["id", "hp"],
+ *   properties: {
+ *     id: { type: "string" },
+ *     hp: { type: "number", min: 1, integer: true },
+ *     speed: { type: "number", default: 1.0 },
+ *     tags: { type: "array", items: { type: "string" }, default: [] },
+ *   },
+ * };
+ * ```
+ */
+export type Schema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | ArraySchema
+  | ObjectSchema
+  | AnySchema;
+
+/**
+ * スキーマ共通の設定
+ */
+interface BaseSchema<T> {
+  /** 値が存在しない場合に使うデフォルト値 */
+  default?: T;
+  /** null を許容するか */
+  nullable?: boolean;
+  /** 検証後に値を変換する関数 */
+  transform?: (value: T) => unknown;
+}
+
+export interface StringSchema extends BaseSchema<string> {
+  type: "string";
+  enum?: string[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp | string;
+}
+
+export interface NumberSchema extends BaseSchema<number> {
+  type: "number";
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export interface BooleanSchema extends BaseSchema<boolean> {
+  type: "boolean";
+}
+
+export interface ArraySchema extends BaseSchema<unknown[]> {
+  type: "array";
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectSchema extends BaseSchema<Record<string, unknown>> {
+  type: "object";
+  properties?: { [key: string]: Schema };
+  required?: string[];
+  /** properties にないキーを許容するか、またはその値のスキーマ（デフォルト: true） */
+  additionalProperties?: boolean | Schema;
+}
+
+export interface AnySchema extends BaseSchema<unknown> {
+  type: "any";
+}
+
+/**
+ * スキーマ検証エラー
+ */
+export interface SchemaError {
+  /** エラーが見つかった位置（例: "enemies[2].hp"） */
+  path: string;
+  message: string;
+}
+
+/**
+ * スキーマ検証結果
+ */
+export interface SchemaValidationResult<T = unknown> {
+  valid: boolean;
+  errors: SchemaError[];
+  /** デフォルト値と変換を適用した値 */
+  value: T;
+}
+
+/**
+ * 値をスキーマで検証し、デフォルト値と変換を適用した値を返す
+ * 元の値は変更しない
+ */
+export const validateSchema = <T = unknown>(
+  schema: Schema,
+  value: unknown
+): SchemaValidationResult<T> => {
+  const errors: SchemaError[] = [];
+  const result = validateValue(schema, value, "", errors);
+  return { valid: errors.length === 0, errors, value: result as T };
+};
+
+/**
+ * スキーマのパスを連結
+ */
+const joinPath = (path: string, key: string | number): string => {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+};
+
+/**
+ * 値の型名を取得
+ */
+const typeOf = (value: unknown): string => {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+};
+
+const validateValue = (
+  schema: Schema,
+  value: unknown,
+  path: string,
+  errors: SchemaError[]
+): unknown => {
+  if (value === undefined && schema.default !== undefined) {
+    value = cloneDefault(schema.default);
+  }
+
+  if (value === null && schema.nullable) {
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const fail = (message: string) =>
+    errors.push({ path: path || "(root)", message });
+  let result: unknown = value;
+
+  switch (schema.type) {
+    case "any":
+      break;
+
+    case "string":
+      if (typeof value !== "string") {
+        fail(`Expected string but got ${typeOf(value)}`);
+        break;
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        fail(`Expected one of ${schema.enum.join(", ")} but got '${value}'`);
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        fail(`Expected at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        fail(`Expected at most ${schema.maxLength} characters`);
+      }
+      if (
+        schema.pattern !== undefined &&
+        !new RegExp(schema.pattern).test(value)
+      ) {
+        fail(`Does not match pattern ${schema.pattern}`);
+      }
+      break;
+
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        fail(`Expected number but got ${typeOf(value)}`);
+        break;
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        fail(`Expected integer but got ${value}`);
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        fail(`Expected >= ${schema.min} but got ${value}`);
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        fail(`Expected <= ${schema.max} but got ${value}`);
+      }
+      break;
+
+    case "boolean":
+      if (typeof value !== "boolean") {
+        fail(`Expected boolean but got ${typeOf(value)}`);
+      }
+      break;
+
+    case "array":
+      if (!Array.isArray(value)) {
+        fail(`Expected array but got ${typeOf(value)}`);
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        fail(`Expected at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        fail(`Expected at most ${schema.maxItems} items`);
+      }
+      result = schema.items
+        ? value.map((item, index) =>
+            validateValue(schema.items!, item, joinPath(path, index), errors)
+          )
+        : [...value];
+      break;
+
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        fail(`Expected object but got ${typeOf(value)}`);
+        break;
+      }
+      const source = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const properties = schema.properties ?? {};
+
+      for (const key of schema.required ?? []) {
+        if (
+          source[key] === undefined &&
+          properties[key]?.default === undefined
+        ) {
+          errors.push({
+            path: joinPath(path, key),
+            message: "Required property is missing",
+          });
+        }
+      }
+
+      for (const [key, propertySchema] of Object.entries(properties)) {
+        if (source[key] === undefined && propertySchema.default === undefined) {
+          continue;
+        }
+        output[key] = validateValue(
+          propertySchema,
+          source[key],
+          joinPath(path, key),
+          errors
+        );
+      }
+
+      const additional = schema.additionalProperties ?? true;
+      for (const [key, propertyValue] of Object.entries(source)) {
+        if (key in properties) {
+          continue;
+        }
+        if (additional === false) {
+          errors.push({
+            path: joinPath(path, key),
+            message: "Unexpected property",
+          });
+        } else if (additional === true) {
+          output[key] = propertyValue;
+        } else {
+          output[key] = validateValue(
+            additional,
+            propertyValue,
+            joinPath(path, key),
+            errors
+          );
+        }
+      }
+      result = output;
+      break;
+    }
+  }
+
+  // 型が一致しない値には変換を適用しない
+  if (schema.transform && errors.length === errorCount) {
+    result = (schema.transform as (value: unknown) => unknown)(result);
+  }
+  return result;
+};
+
+/**
+ * デフォルト値を複製（オブジェクト・配列を共有しないため）
+ */
+const cloneDefault = <T>(value: T): T => {
+  if (typeof value === "object" && value !== null) {
+    return JSON.parse(JSON.stringify(value));
+  }
+  return value;
+};
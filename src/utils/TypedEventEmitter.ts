@@ -0,0 +1,102 @@
+/**
+ * 型付きイベントエミッター
+ * イベント名ごとにペイロードの型を決め、リスナーの引数を型チェックする
+ *
+ * 使用例:
+ * ```typescript
+ * interface Events {
+ *   scoreChanged: { score: number };
+ * }
+ *
+ * const emitter = new TypedEventEmitter<Events>();
+ * emitter.on('scoreChanged', ({ score }) => console.log(score));
+ * emitter.emit('scoreChanged', { score: 100 });
+ * ```
+ */
+export class TypedEventEmitter<E extends object> {
+  private listeners: Map<keyof E, Set<TypedEventListener<E, any>>> = new Map();
+
+  /**
+   * リスナーを登録
+   */
+  on<K extends keyof E>(event: K, listener: TypedEventListener<E, K>): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  /**
+   * 1回だけ呼ばれるリスナーを登録
+   */
+  once<K extends keyof E>(event: K, listener: TypedEventListener<E, K>): this {
+    const wrapper: OnceListener<E, K> = (payload) => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    wrapper.original = listener;
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * リスナーを解除
+   */
+  off<K extends keyof E>(event: K, listener: TypedEventListener<E, K>): this {
+    const listeners = this.listeners.get(event);
+    listeners?.forEach((registered) => {
+      if (
+        registered === listener ||
+        (registered as OnceListener<E, K>).original === listener
+      ) {
+        listeners.delete(registered);
+      }
+    });
+    return this;
+  }
+
+  /**
+   * イベントを発行
+   * リスナーで発生した例外は他のリスナーの呼び出しを止めないようログに出力する
+   */
+  emit<K extends keyof E>(event: K, payload: E[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of [...listeners]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in '${String(event)}' listener:`, error);
+      }
+    }
+  }
+
+  /**
+   * リスナーを全て解除（イベント名を指定した場合はそのイベントのみ）
+   */
+  removeAllListeners(event?: keyof E): this {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+    return this;
+  }
+}
+
+/**
+ * イベントリスナー
+ */
+export type TypedEventListener<E extends object, K extends keyof E> = (
+  payload: E[K]
+) => void;
+
+/**
+ * once で登録したリスナー（off で元のリスナーを指定して解除できるよう保持する）
+ */
+interface OnceListener<E extends object, K extends keyof E>
+  extends TypedEventListener<E, K> {
+  original?: TypedEventListener<E, K>;
+}
@@ -0,0 +1,436 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AssetLoadCancelledError,
+  AssetLoadError,
+  AssetManager,
+  AssetType,
+  LoadPriority,
+} from "../src";
+import { HeadlessScene } from "../src/testing";
+import { advance, settle } from "./helpers";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("読み込みスケジューラー", () => {
+  it("失敗したファイルをバックオフ付きで再試行する", async () => {
+    const scene = new HeadlessScene();
+    scene.load.respond("hero.png", [
+      { status: 500 },
+      { status: 500 },
+      { width: 64, height: 64 },
+    ]);
+    const manager = new AssetManager(scene.asScene());
+    manager.registerImage("hero", "hero.png");
+    const startedAt: number[] = [];
+    manager.on("fileStart", () => startedAt.push(scene.clock.now));
+
+    const result = await settle(
+      scene,
+      manager.loadAssets(["hero"], undefined, {
+        retries: 2,
+        retryDelay: 100,
+        retryBackoff: 3,
+      })
+    );
+
+    expect(result.succeeded).toEqual(["hero"]);
+    expect(result.failed).toEqual([]);
+    expect(startedAt).toHaveLength(3);
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(100);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(300);
+    expect(manager.isLoaded("hero")).toBe(true);
+  });
+
+  it("再試行しきれない場合、fail-fast では AssetLoadError を投げる", async () => {
+    const scene = new HeadlessScene();
+    scene.load.respond("broken.png", { status: 404 });
+    const manager = new AssetManager(scene.asScene());
+    manager.registerImage("broken", "broken.png");
+
+    const error = await settle(
+      scene,
+      manager
+        .loadAssets(["broken"], undefined, {
+          mode: "fail-fast",
+          retries: 1,
+          retryDelay: 50,
+        })
+        .catch((error: unknown) => error)
+    );
+
+    expect(error).toBeInstanceOf(AssetLoadError);
+    expect((error as AssetLoadError).result.failed).toMatchObject([
+      { key: "broken", attempts: 2 },
+    ]);
+  });
+
+  it("優先度の高い要求が来るとプリフェッチの未開始分を後回しにする", async () => {
+    const scene = new HeadlessScene();
+    scene.load.setDefaultResponse({ delay: 100 });
+    const manager = new AssetManager(scene.asScene(), {
+      prefetchConcurrency: 2,
+      prefetchChunkSize: 4,
+    });
+    ["p1", "p2", "p3", "p4", "critical"].forEach((key) =>
+      manager.registerImage(key, `${key}.png`)
+    );
+    const loaded: string[] = [];
+    manager.on("fileLoaded", ({ asset }) => loaded.push(asset.key));
+
+    const prefetch = manager.prefetch(["p1", "p2", "p3", "p4"]);
+    await advance(scene, 20);
+    const critical = manager.loadAssets(["critical"], undefined, {
+      priority: LoadPriority.CRITICAL,
+    });
+
+    await settle(scene, critical);
+    const result = await settle(scene, prefetch);
+
+    expect(loaded.indexOf("critical")).toBeLessThan(loaded.indexOf("p3"));
+    expect(loaded.indexOf("critical")).toBeLessThan(loaded.indexOf("p4"));
+    expect(result.succeeded.sort()).toEqual(["p1", "p2", "p3", "p4"]);
+  });
+
+  it("AbortSignal でキャンセルすると未開始のファイルを取り除いて reject する", async () => {
+    const scene = new HeadlessScene();
+    scene.load.setDefaultResponse({ delay: 100 });
+    scene.load.maxParallelDownloads = 1;
+    const manager = new AssetManager(scene.asScene());
+    manager.registerImage("a", "a.png").registerImage("b", "b.png");
+    const controller = new AbortController();
+
+    const load = manager
+      .loadAssets(["a", "b"], undefined, { signal: controller.signal })
+      .catch((error: unknown) => error);
+    await advance(scene, 20);
+    controller.abort();
+    const error = await settle(scene, load);
+
+    expect(error).toBeInstanceOf(AssetLoadCancelledError);
+    expect((error as AssetLoadCancelledError).result.skipped).toEqual([
+      { key: "a", reason: "cancelled" },
+      { key: "b", reason: "cancelled" },
+    ]);
+    await advance(scene, 200);
+    // 読み込み中のファイルは止められないが、未開始のファイルはローダーから取り除く
+    expect(manager.isLoadingAssets()).toBe(false);
+    expect(scene.load.requests).toEqual(["a.png"]);
+    expect(manager.isLoaded("b")).toBe(false);
+  });
+});
+
+describe("メモリ予算", () => {
+  it("予算を超えた分だけ、最後に使われたのが古いアセットからアンロードする", async () => {
+    const scene = new HeadlessScene();
+    // 64x64 の画像は 16KB
+    scene.load.setDefaultResponse({ width: 64, height: 64 });
+    const manager = new AssetManager(scene.asScene(), { memoryBudgetKB: 40 });
+    ["a", "b", "c"].forEach((key) => manager.registerImage(key, `${key}.png`));
+    const evicted: string[] = [];
+    manager.on("evicted", ({ asset, reason }) =>
+      evicted.push(`${asset.key}:${reason}`)
+    );
+
+    manager.acquire(["a", "b", "c"]);
+    await settle(scene, manager.loadAssets(["a", "b", "c"]));
+    expect(manager.getMemoryUsageKB()).toBe(48);
+
+    manager.markUsed("b");
+    await advance(scene, 100);
+    manager.markUsed("a");
+    await advance(scene, 100);
+    manager.markUsed("c");
+    manager.release(["a", "b", "c"]);
+
+    expect(evicted).toEqual(["b:budget"]);
+    expect(manager.getMemoryUsageKB()).toBe(32);
+    expect(manager.isLoaded("a")).toBe(true);
+    expect(manager.isLoaded("c")).toBe(true);
+  });
+
+  it("参照中のアセットはアンロードしない", async () => {
+    const scene = new HeadlessScene();
+    scene.load.setDefaultResponse({ width: 64, height: 64 });
+    const manager = new AssetManager(scene.asScene(), { memoryBudgetKB: 20 });
+    manager.registerImage("a", "a.png").registerImage("b", "b.png");
+
+    manager.acquire(["a", "b"]);
+    await settle(scene, manager.loadAssets(["a", "b"]));
+    manager.release("b");
+
+    expect(manager.isLoaded("a")).toBe(true);
+    expect(manager.isLoaded("b")).toBe(false);
+  });
+});
+
+describe("ホットリロード", () => {
+  it("元のキーのバージョンとミラーで URL を解決し、その場で置き換える", async () => {
+    const scene = new HeadlessScene();
+    scene.load
+      .respond("https://cdn.example/hero.png", [
+        { width: 32, height: 32 },
+        { status: 503 },
+      ])
+      .respond("https://mirror.example/hero.png", { width: 64, height: 64 });
+    const manager = new AssetManager(scene.asScene(), {
+      baseURL: "https://cdn.example/",
+      mirrors: ["https://mirror.example/"],
+      assetVersions: { hero: "abc" },
+    });
+    manager.registerImage("hero", "hero.png");
+    const reloaded: string[] = [];
+    manager.on("reloaded", ({ asset }) => reloaded.push(asset.key));
+
+    await settle(scene, manager.loadAssets(["hero"]));
+    const success = await settle(scene, manager.reloadAsset("hero"));
+
+    expect(success).toBe(true);
+    expect(reloaded).toEqual(["hero"]);
+    expect(scene.load.requests[0]).toBe("https://cdn.example/hero.png?v=abc");
+    expect(scene.load.requests.slice(1)).toEqual([
+      expect.stringMatching(/^https:\/\/cdn\.example\/hero\.png\?v=\d+$/),
+      expect.stringMatching(/^https:\/\/mirror\.example\/hero\.png\?v=\d+$/),
+    ]);
+    expect(scene.textures.get("hero").source[0].width).toBe(64);
+    expect(scene.textures.getTextureKeys()).toEqual(["hero"]);
+  });
+
+  it("読み込み直しに失敗した場合は元のアセットを残す", async () => {
+    const scene = new HeadlessScene();
+    scene.load.respond("hero.png", [{}, { status: 404 }]);
+    const manager = new AssetManager(scene.asScene());
+    manager.registerImage("hero", "hero.png");
+
+    await settle(scene, manager.loadAssets(["hero"]));
+    const success = await settle(scene, manager.reloadAsset("hero"));
+
+    expect(success).toBe(false);
+    expect(manager.isLoaded("hero")).toBe(true);
+  });
+
+  it("読み込み直しが例外で失敗しても、後の読み込み直しは実行される", async () => {
+    const scene = new HeadlessScene();
+    const manager = new AssetManager(scene.asScene());
+    manager
+      .registerImage("hero", "hero.png")
+      .registerImage("enemy", "enemy.png");
+    await settle(scene, manager.loadAssets(["hero", "enemy"]));
+    vi.spyOn(scene.textures, "renameTexture").mockImplementationOnce(() => {
+      throw new Error("Texture was destroyed");
+    });
+
+    const failed = manager.reloadAsset("hero").catch((error: Error) => error);
+    const next = manager.reloadAsset("enemy");
+
+    expect(await settle(scene, failed)).toBeInstanceOf(Error);
+    expect(await settle(scene, next)).toBe(true);
+  });
+
+  it("リロードソースからの読み込み直しの失敗は未処理のまま残さない", async () => {
+    const scene = new HeadlessScene();
+    const manager = new AssetManager(scene.asScene());
+    manager.registerImage("hero", "hero.png");
+    await settle(scene, manager.loadAssets(["hero"]));
+    vi.spyOn(scene.textures, "renameTexture").mockImplementationOnce(() => {
+      throw new Error("Texture was destroyed");
+    });
+    let notify: (target: string) => void = () => undefined;
+    manager.addReloadSource({
+      connect: (onChange) => {
+        notify = onChange;
+        return () => undefined;
+      },
+    });
+
+    // 未処理の reject が残った場合は vitest がテストを失敗させる
+    notify("hero.png");
+    await advance(scene, 100);
+
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("プリフェッチ中に読み込み直しても、どちらの読み込みも混ざらない", async () => {
+    const scene = new HeadlessScene();
+    scene.load
+      .setDefaultResponse({ delay: 100 })
+      .respond("hero.png", [{}, { width: 64, height: 64, delay: 100 }]);
+    const manager = new AssetManager(scene.asScene(), {
+      prefetchConcurrency: 2,
+      prefetchChunkSize: 2,
+    });
+    ["hero", "p1", "p2", "p3", "p4"].forEach((key) =>
+      manager.registerImage(key, `${key}.png`)
+    );
+    await settle(scene, manager.loadAssets(["hero"]));
+    const loaded: string[] = [];
+    manager.on("fileLoaded", ({ asset }) => loaded.push(asset.key));
+
+    const prefetch = manager.prefetch(["p1", "p2", "p3", "p4"]);
+    await advance(scene, 20);
+    const reload = manager.reloadAsset("hero");
+    const load = manager.loadAssets(["p4"]);
+
+    expect(await settle(scene, reload)).toBe(true);
+    expect((await settle(scene, prefetch)).succeeded.sort()).toEqual([
+      "p1",
+      "p2",
+      "p3",
+      "p4",
+    ]);
+    expect((await settle(scene, load)).succeeded).toEqual(["p4"]);
+    expect(loaded.sort()).toEqual(["p1", "p2", "p3", "p4"]);
+    expect(scene.textures.get("hero").source[0].width).toBe(64);
+    expect(manager.isLoadingAssets()).toBe(false);
+  });
+
+  it("読み込みの開始と同時に読み込み直しても、読み込みの結果に混ざらない", async () => {
+    const scene = new HeadlessScene();
+    scene.load
+      .respond("map.png", { delay: 100 })
+      .respond("hero.png", [{}, { delay: 1000 }]);
+    const manager = new AssetManager(scene.asScene());
+    manager.registerImage("hero", "hero.png").registerImage("map", "map.png");
+    await settle(scene, manager.loadAssets(["hero"]));
+    const progress: number[] = [];
+
+    const startedAt = scene.clock.now;
+    const load = manager.loadAssets(["map"], (value) => progress.push(value));
+    const reload = manager.reloadAsset("hero");
+
+    expect((await settle(scene, load)).succeeded).toEqual(["map"]);
+    expect(scene.clock.now - startedAt).toBeLessThan(200);
+    expect(progress.filter((value) => value > 0 && value < 1)).toEqual([]);
+    expect(await settle(scene, reload)).toBe(true);
+  });
+});
+
+describe("登録", () => {
+  it('マニフェストの type "font" をビットマップフォントとして扱う', async () => {
+    const scene = new HeadlessScene();
+    const manager = new AssetManager(scene.asScene());
+    manager.registerManifest({
+      packs: {
+        ui: [
+          {
+            key: "digits",
+            type: AssetType.FONT,
+            path: "digits.png",
+            options: { fontDataURL: "digits.xml" },
+          },
+        ],
+      },
+    });
+
+    await settle(scene, manager.loadPack("ui"));
+
+    expect(manager.isLoaded("digits")).toBe(true);
+    expect(scene.cache.bitmapFont.exists("digits")).toBe(true);
+  });
+
+  it('Phaser のパックファイルの type "font" もビットマップフォントとして扱う', async () => {
+    const scene = new HeadlessScene();
+    const manager = new AssetManager(scene.asScene());
+    manager.registerManifest({
+      ui: { path: "fonts/", files: [{ type: "font", key: "digits" }] },
+    });
+
+    await settle(scene, manager.loadPack("ui"));
+
+    expect(scene.load.requests.sort()).toEqual([
+      "fonts/digits.png",
+      "fonts/digits.xml",
+    ]);
+    expect(scene.cache.bitmapFont.exists("digits")).toBe(true);
+  });
+
+  it("Phaser のパックファイルで URL のないファイルにはタイプの拡張子を補う", async () => {
+    const scene = new HeadlessScene();
+    const manager = new AssetManager(scene.asScene());
+    manager.registerManifest({
+      title: {
+        path: "assets/",
+        files: [
+          { type: "image", key: "logo" },
+          { type: "json", key: "credits" },
+          { type: "audio", key: "jingle" },
+        ],
+      },
+    });
+
+    await settle(scene, manager.loadPack("title"));
+
+    expect(scene.load.requests.sort()).toEqual([
+      "assets/credits.json",
+      "assets/logo.png",
+    ]);
+    expect(manager.isRegistered("jingle")).toBe(false);
+  });
+
+  it("loadLevelAssets はパック名と、以前のキー一覧の呼び出し方の両方で読み込む", async () => {
+    const scene = new HeadlessScene();
+    const manager = new AssetManager(scene.asScene());
+    manager
+      .registerPack("stage1", [
+        { key: "tiles", type: AssetType.IMAGE, path: "tiles.png" },
+      ])
+      .registerImage("boss", "boss.png");
+    const progress: number[] = [];
+
+    const pack = await settle(scene, manager.loadLevelAssets("stage1"));
+    const legacy = await settle(
+      scene,
+      manager.loadLevelAssets("stage2", ["boss"], (value) =>
+        progress.push(value)
+      )
+    );
+
+    expect(pack.succeeded).toEqual(["tiles"]);
+    expect(legacy.succeeded).toEqual(["boss"]);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it("循環する依存関係を登録しようとした場合は何も追加しない", () => {
+    const scene = new HeadlessScene();
+    const manager = new AssetManager(scene.asScene());
+    manager.registerDependencies("a", ["b"]);
+
+    expect(() => manager.registerDependencies("b", ["c", "a"])).toThrow(
+      "Dependency cycle detected: b -> a -> b"
+    );
+    expect(manager.getDependencies("b")).toEqual([]);
+  });
+
+  it("スキーマの transform が投げたエラーを検証エラーとして報告する", async () => {
+    const scene = new HeadlessScene();
+    scene.load.respond("stage.json", { data: { level: 1 } });
+    const manager = new AssetManager(scene.asScene());
+    manager.registerJSON("stage", "stage.json", {
+      schema: {
+        type: "object",
+        transform: () => {
+          throw new Error("bad stage");
+        },
+      },
+      blockOnInvalid: true,
+    });
+
+    const result = await settle(scene, manager.loadAssets(["stage"]));
+
+    expect(result.failed).toMatchObject([
+      { key: "stage", reason: "Validation failed" },
+    ]);
+    expect(result.validation[0].errors).toEqual([
+      { path: "(root)", message: "Error: bad stage" },
+    ]);
+    expect(manager.isLoaded("stage")).toBe(false);
+  });
+});
@@ -0,0 +1,307 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AssetManager, SoundManager } from "../src";
+import { HeadlessScene, HeadlessSound } from "../src/testing";
+
+/**
+ * 音声を登録して読み込んだ SoundManager を作成
+ * durations は音声キーと長さ（秒）
+ */
+const setup = async (
+  durations: { [key: string]: number },
+  configure: (manager: SoundManager) => void
+) => {
+  const scene = new HeadlessScene();
+  Object.entries(durations).forEach(([key, duration]) =>
+    scene.load.respond(`${key}.mp3`, { duration })
+  );
+  const assetManager = new AssetManager(scene.asScene());
+  const manager = new SoundManager(scene.asScene(), assetManager);
+  configure(manager);
+  await scene.clock.resolve(assetManager.loadAssets());
+  return { scene, manager };
+};
+
+const getSound = (scene: HeadlessScene, key: string): HeadlessSound =>
+  scene.sound.getAll(key)[0];
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("同時再生数の上限", () => {
+  it("oldest では最も古い音声を止めて再生する", async () => {
+    const { scene, manager } = await setup({ a: 5, b: 5, c: 5 }, (manager) =>
+      manager
+        .defineCategory("fx", { maxConcurrent: 2, stealPolicy: "oldest" })
+        .registerSound("a", "fx", "a.mp3")
+        .registerSound("b", "fx", "b.mp3")
+        .registerSound("c", "fx", "c.mp3")
+    );
+
+    const a = manager.playSound("a")!;
+    scene.clock.advance(100);
+    const b = manager.playSound("b")!;
+    const c = manager.playSound("c")!;
+
+    expect([a.isPlaying, b.isPlaying, c.isPlaying]).toEqual([
+      false,
+      true,
+      true,
+    ]);
+    expect(manager.getDebugInfo().voices.stolen).toBe(1);
+  });
+
+  it("lowestPriority では優先度の高い音声を止めず、新しい音声を再生しない", async () => {
+    const { manager } = await setup({ a: 5, b: 5, c: 5 }, (manager) =>
+      manager
+        .defineCategory("fx", {
+          maxConcurrent: 2,
+          stealPolicy: "lowestPriority",
+        })
+        .registerSound("a", "fx", "a.mp3")
+        .registerSound("b", "fx", "b.mp3")
+        .registerSound("c", "fx", "c.mp3")
+    );
+
+    const a = manager.playSound("a", undefined, { priority: 1 })!;
+    const b = manager.playSound("b", undefined, { priority: 3 })!;
+
+    expect(manager.playSound("c", undefined, { priority: 0 })).toBeNull();
+    const c = manager.playSound("c", undefined, { priority: 2 })!;
+    expect([a.isPlaying, b.isPlaying, c.isPlaying]).toEqual([
+      false,
+      true,
+      true,
+    ]);
+  });
+
+  it("仮想ボイスは再生位置を進め、空きができると続きから再生する", async () => {
+    const { scene, manager } = await setup({ a: 10, b: 10 }, (manager) =>
+      manager
+        .defineCategory("fx", {
+          maxConcurrent: 1,
+          stealPolicy: "lowestPriority",
+          virtualize: true,
+        })
+        .registerSound("a", "fx", "a.mp3")
+        .registerSound("b", "fx", "b.mp3")
+    );
+
+    manager.playSound("a", undefined, { priority: 1 });
+    const a = getSound(scene, "a");
+    scene.clock.advance(1000);
+    const b = manager.playSound("b", undefined, { priority: 2 })!;
+    expect(a.isPaused).toBe(true);
+
+    scene.clock.advance(2000);
+    b.stop();
+    scene.clock.advance(20);
+
+    expect(a.isPlaying).toBe(true);
+    expect(a.seek).toBeCloseTo(3.02, 2);
+  });
+
+  it("イントロの再生中に仮想ボイスになった曲は、イントロの後もループ区間を続ける", async () => {
+    const { scene, manager } = await setup(
+      { music: 10, jingle: 10 },
+      (manager) =>
+        manager
+          .defineCategory("music", {
+            maxConcurrent: 1,
+            loop: true,
+            stealPolicy: "lowestPriority",
+            virtualize: true,
+          })
+          .registerSound("music", "music", "music.mp3", {
+            loopStart: 2,
+            loopEnd: 8,
+          })
+          .registerSound("jingle", "music", "jingle.mp3")
+    );
+
+    manager.playSound("music", undefined, { priority: 1 });
+    const bgm = getSound(scene, "music");
+    scene.clock.advance(1000);
+    const jingle = manager.playSound("jingle", undefined, { priority: 2 })!;
+
+    // イントロ（2秒）を過ぎ、ループ区間（6秒）を1周以上進める
+    scene.clock.advance(9000);
+    expect(bgm.isPaused).toBe(true);
+    expect(bgm.currentMarker?.name).toBe("__loop");
+
+    jingle.stop();
+    scene.clock.advance(20);
+    expect(bgm.isPlaying).toBe(true);
+    expect(bgm.seek).toBeCloseTo(2.02, 2);
+
+    scene.clock.advance(20000);
+    expect(bgm.isPlaying).toBe(true);
+  });
+});
+
+describe("ダッキング", () => {
+  it("トリガーのカテゴリが鳴っている間、対象のカテゴリの音量を下げる", async () => {
+    const { scene, manager } = await setup({ music: 10, line: 1 }, (manager) =>
+      manager
+        .registerSound("music", "bgm", "music.mp3")
+        .registerSound("line", "voice", "line.mp3")
+        .defineDucking("voice", "bgm", {
+          amount: 0.6,
+          attack: 200,
+          release: 800,
+        })
+    );
+    manager.setCategoryVolume("bgm", 1);
+    manager.playBGM("music", undefined, { duration: 0 });
+    const music = getSound(scene, "music");
+
+    manager.playSound("line");
+    scene.clock.advance(100);
+    expect(music.volume).toBeGreaterThan(0.4);
+    expect(music.volume).toBeLessThan(1);
+    scene.clock.advance(150);
+    expect(music.volume).toBeCloseTo(0.4);
+
+    // ボイスが終わるとリリースで元の音量に戻る
+    scene.clock.advance(800);
+    scene.clock.advance(900);
+    expect(music.volume).toBeCloseTo(1);
+    expect(manager.getDebugInfo().categories.bgm.ducking).toBeCloseTo(1);
+  });
+
+  it("BGM のフェードイン中にダッキングが始まっても、下げた音量で終わる", async () => {
+    const { scene, manager } = await setup({ music: 10, line: 5 }, (manager) =>
+      manager
+        .registerSound("music", "bgm", "music.mp3")
+        .registerSound("line", "voice", "line.mp3")
+        .defineDucking("voice", "bgm", { amount: 0.6, attack: 100 })
+    );
+    manager.setCategoryVolume("bgm", 1);
+    manager.playBGM("music", undefined, { duration: 1000, curve: "linear" });
+    const music = getSound(scene, "music");
+
+    scene.clock.advance(300);
+    manager.playSound("line");
+    scene.clock.advance(100);
+    expect(music.volume).toBeCloseTo(0.4 * 0.4, 1);
+
+    scene.clock.advance(800);
+    expect(music.volume).toBeCloseTo(0.4);
+  });
+
+  it("カテゴリのフェードイン中にダッキングが終わると、元の音量まで上げる", async () => {
+    const { scene, manager } = await setup({ rain: 10, line: 0.2 }, (manager) =>
+      manager
+        .defineCategory("weather", { fadeInDuration: 1000 })
+        .registerSound("rain", "weather", "rain.mp3")
+        .registerSound("line", "voice", "line.mp3")
+        .defineDucking("voice", "weather", {
+          amount: 0.5,
+          attack: 0,
+          release: 100,
+        })
+    );
+    manager.playSound("line");
+    manager.playSound("rain");
+    const rain = getSound(scene, "rain");
+
+    scene.clock.advance(1200);
+    expect(rain.volume).toBeCloseTo(1);
+  });
+});
+
+describe("BGM のクロスフェード", () => {
+  it("前の曲をフェードアウトしながら次の曲をフェードインする", async () => {
+    const { scene, manager } = await setup({ a: 30, b: 30 }, (manager) =>
+      manager
+        .registerSound("a", "bgm", "a.mp3")
+        .registerSound("b", "bgm", "b.mp3")
+    );
+    manager.setCategoryVolume("bgm", 1);
+    manager.playBGM("a", undefined, { duration: 0 });
+    const a = getSound(scene, "a");
+
+    manager.playBGM("b", undefined, { duration: 1000, curve: "linear" });
+    const b = getSound(scene, "b");
+    scene.clock.advance(500);
+
+    expect(a.volume).toBeCloseTo(0.5, 1);
+    expect(b.volume).toBeCloseTo(0.5, 1);
+    expect(manager.getCurrentBGM()).toBe("b");
+
+    scene.clock.advance(600);
+    expect(a.isPlaying).toBe(false);
+    expect(b.isPlaying).toBe(true);
+    expect(b.volume).toBeCloseTo(1);
+  });
+
+  it("クロスフェード中に切り替えても前の曲を取り残さない", async () => {
+    const { scene, manager } = await setup({ a: 30, b: 30, c: 30 }, (manager) =>
+      manager
+        .registerSound("a", "bgm", "a.mp3")
+        .registerSound("b", "bgm", "b.mp3")
+        .registerSound("c", "bgm", "c.mp3")
+    );
+    manager.playBGM("a", undefined, { duration: 0 });
+    manager.playBGM("b", undefined, { duration: 1000 });
+    scene.clock.advance(100);
+    manager.playBGM("c", undefined, { duration: 1000 });
+    scene.clock.advance(1100);
+
+    expect(scene.sound.getAllPlaying().map((sound) => sound.key)).toEqual([
+      "c",
+    ]);
+  });
+});
+
+describe("レイヤー音楽", () => {
+  const setupLayered = () =>
+    setup({ drums: 30, bass: 30, theme: 30, jingle: 5 }, (manager) =>
+      manager
+        .registerSound("drums", "bgm", "drums.mp3")
+        .registerSound("bass", "bgm", "bass.mp3")
+        .registerSound("theme", "bgm", "theme.mp3")
+        .registerSound("jingle", "bgm", "jingle.mp3")
+        .registerLayeredMusic("battle", [
+          { key: "drums" },
+          { key: "bass", enterAt: 0.5 },
+        ])
+    );
+
+  it("ステムは BGM カテゴリの同時再生数に含めない", async () => {
+    const { scene, manager } = await setupLayered();
+    manager.playLayeredMusic("battle", 1, { duration: 0 });
+
+    const jingle = manager.playSound("jingle");
+    expect(jingle?.isPlaying).toBe(true);
+    expect(getSound(scene, "drums").isPlaying).toBe(true);
+    expect(getSound(scene, "bass").isPlaying).toBe(true);
+    expect(manager.getDebugInfo().voices.stolen).toBe(0);
+  });
+
+  it("レイヤー音楽から BGM に切り替えるとステムをフェードアウトして止める", async () => {
+    const { scene, manager } = await setupLayered();
+    manager.playLayeredMusic("battle", 1, { duration: 0 });
+    const stems = [getSound(scene, "drums"), getSound(scene, "bass")];
+
+    manager.playBGM("theme", undefined, { duration: 500 });
+    expect(manager.getCurrentMusic()).toBeNull();
+    scene.clock.advance(600);
+
+    expect(getSound(scene, "theme").isPlaying).toBe(true);
+    expect(stems.map((stem) => stem.isPlaying)).toEqual([false, false]);
+    expect(manager.getDebugInfo().categories.bgm.playingSounds).toBe(1);
+  });
+
+  it("カテゴリを止めるとステムも止める", async () => {
+    const { scene, manager } = await setupLayered();
+    manager.playLayeredMusic("battle", 1, { duration: 0 });
+
+    manager.stopCategory("bgm");
+    expect(scene.sound.getAllPlaying()).toEqual([]);
+  });
+});
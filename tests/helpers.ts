@@ -0,0 +1,45 @@
+import { vi } from "vitest";
+import { HeadlessScene } from "../src/testing";
+
+/**
+ * テスト時計と vitest の偽タイマーを 1 フレームずつ揃えて進め、Promise が決着するまで待つ
+ * 読み込みスケジューラーの再試行待ちとアセットの最終使用時刻は Date・setTimeout を使うため、
+ * vi.useFakeTimers() と合わせて使う
+ */
+export const settle = async <T>(
+  scene: HeadlessScene,
+  promise: Promise<T>,
+  timeoutMs: number = 60000
+): Promise<T> => {
+  let settled = false;
+  const tracked = promise.finally(() => {
+    settled = true;
+  });
+  tracked.catch(() => undefined);
+
+  const start = scene.clock.now;
+  while (!settled) {
+    if (scene.clock.now - start >= timeoutMs) {
+      throw new Error(`Promise did not settle within ${timeoutMs}ms`);
+    }
+    await advance(scene, STEP_MS);
+  }
+  return tracked;
+};
+
+/**
+ * テスト時計と vitest の偽タイマーを ms ミリ秒進める
+ */
+export const advance = async (
+  scene: HeadlessScene,
+  ms: number
+): Promise<void> => {
+  const end = scene.clock.now + ms;
+  while (scene.clock.now < end) {
+    const step = Math.min(STEP_MS, end - scene.clock.now);
+    scene.clock.advance(step);
+    await vi.advanceTimersByTimeAsync(step);
+  }
+};
+
+const STEP_MS = 1000 / 60;
@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest";
+
+describe("エントリーポイント", () => {
+  it("メインのエントリーは Phaser を読み込まずに Node で使える", async () => {
+    const entry = await import("../src");
+
+    expect(entry.AssetManager).toBeTypeOf("function");
+    expect(entry.SoundManager).toBeTypeOf("function");
+    expect("LoadingScene" in entry).toBe(false);
+  });
+});